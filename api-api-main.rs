@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\api-api-main.rs
-// Generated at: 2025-10-13T13:07:23.666Z
\ No newline at end of file
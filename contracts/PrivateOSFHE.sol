@@ -1,16 +1,36 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
-import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { FHE, euint32, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig, ZamaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract PrivateOSFHE is SepoliaConfig {
+    // Admins manage roles and metric access, devices submit telemetry and crashes,
+    // analysts decide what goes to the decryption oracle
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant ANALYST_ROLE = keccak256("ANALYST_ROLE");
+    bytes32 public constant DEVICE_ROLE = keccak256("DEVICE_ROLE");
+
+    // Keeps the homomorphic path's FHE operations within one transaction's limits: every
+    // sample costs 4 operations plus 2 per threshold comparison of the enabled rules
+    uint256 public constant MAX_HOMOMORPHIC_METRICS = 20;
+    uint256 public constant HOMOMORPHIC_OP_BUDGET = 160;
+    uint256 public constant MAX_RULES = 8;
+    // Squaring the window dominates a z-score check's cost
+    uint8 public constant MAX_ZSCORE_WINDOW = 8;
+    uint8 public constant MAX_ZSCORE_DEVIATIONS = 10;
+    // Z-score inputs are capped here so the 64-bit sums of squares cannot wrap
+    uint32 public constant ZSCORE_READING_CAP = 1 << 24;
+
     struct SystemMetric {
         euint32 encryptedCpuUsage;
         euint32 encryptedMemoryUsage;
         euint32 encryptedDiskActivity;
         euint32 encryptedNetworkTraffic;
         uint256 timestamp;
+        uint256 deviceId;
+        // The device's fleet at submission, so moving a device later does not rewrite history
+        uint256 fleetId;
     }
 
     struct CrashReport {
@@ -18,6 +38,23 @@ contract PrivateOSFHE is SepoliaConfig {
         euint32 encryptedMemoryDumpHash;
         euint32 encryptedProcessId;
         bool isAnalyzed;
+        uint256 deviceId;
+        uint256 fleetId;
+    }
+
+    // Devices sign their submissions with their own key. The registry never stores who owns a
+    // device: ownerCommitment is keccak256(abi.encode(owner, salt)), or zero, and only someone
+    // holding the salt can show which owner it commits to.
+    struct Device {
+        address key;
+        uint256 fleetId;
+        bytes32 ownerCommitment;
+        bool active;
+    }
+
+    struct Fleet {
+        string name;
+        uint256 activeDevices;
     }
 
     struct PerformanceAnalysis {
@@ -26,6 +63,28 @@ contract PrivateOSFHE is SepoliaConfig {
         euint32 encryptedAnomalyScore;
     }
 
+    enum RuleKind { Threshold, ZScore }
+
+    // Bit i of fields selects cpu, memory, disk and network, in that order. Threshold rules
+    // fire when any (or, with matchAll, every) selected reading exceeds its threshold; z-score
+    // rules watch a single field and fire when it is more than `deviations` standard deviations
+    // from the mean of the `window` metrics its device submitted before it.
+    struct AnomalyRule {
+        string name;
+        RuleKind kind;
+        uint8 fields;
+        bool matchAll;
+        uint32[4] thresholds;
+        uint8 deviations;
+        uint8 window;
+        bool enabled;
+    }
+
+    struct MetricCheck {
+        uint256 metricId;
+        uint256 ruleId;
+    }
+
     uint256 public metricCount;
     uint256 public crashCount;
     uint256 public analysisCount;
@@ -33,50 +92,289 @@ contract PrivateOSFHE is SepoliaConfig {
     mapping(uint256 => CrashReport) public crashReports;
     mapping(uint256 => PerformanceAnalysis) public performanceAnalyses;
     mapping(uint256 => uint256) private requestToMetricId;
+    mapping(uint256 => uint256[]) private requestToMetricIds;
+    mapping(uint256 => MetricCheck) private requestToCheck;
     mapping(uint256 => uint256) private requestToCrashId;
-    
-    event MetricCollected(uint256 indexed metricId);
-    event CrashReported(uint256 indexed crashId);
+    mapping(uint256 => uint256) public analysisByRequest;
+    mapping(uint256 => address) private requestToRequester;
+    mapping(uint256 => address) public analysisRequester;
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    uint256 public adminCount;
+    uint256 public ruleCount;
+    mapping(uint256 => AnomalyRule) private anomalyRules;
+    uint256 public deviceCount;
+    uint256 public fleetCount;
+    mapping(uint256 => Device) public devices;
+    mapping(address => uint256) public deviceIdOf;
+    mapping(uint256 => Fleet) public fleets;
+    // Each device's metric IDs in submission order, and each metric's position there
+    mapping(uint256 => uint256[]) private deviceMetricIds;
+    mapping(uint256 => uint256) private deviceMetricIndex;
+
+    event MetricCollected(uint256 indexed metricId, uint256 indexed deviceId, uint256 indexed fleetId);
+    event CrashReported(uint256 indexed crashId, uint256 indexed deviceId, uint256 indexed fleetId);
+    event AnalysisRequested(uint256 indexed requestId, uint256[] metricIds);
     event AnalysisCompleted(uint256 indexed analysisId);
-    event AnomalyDetected(uint256 indexed metricId);
+    event AnomalyDetected(uint256 indexed metricId, uint256 indexed ruleId, string rule);
+    event MetricChecked(uint256 indexed metricId, uint256 indexed ruleId, bool fired);
+    event AnomalyRuleChanged(uint256 indexed ruleId);
+    event FleetCreated(uint256 indexed fleetId, string name);
+    event DeviceEnrolled(uint256 indexed deviceId, uint256 indexed fleetId, address key);
+    event DeviceMoved(uint256 indexed deviceId, uint256 indexed fleetId);
+    event DeviceRetired(uint256 indexed deviceId);
+    event AnalysisViewerAdded(uint256 indexed analysisId, address indexed viewer);
+    event MetricDecrypted(uint256 indexed metricId, uint32 cpuUsage);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event MetricAccessGranted(uint256 indexed metricId, address indexed analyst);
+
+    modifier onlyRole(bytes32 role) {
+        require(roles[role][msg.sender], "Missing role");
+        _;
+    }
+
+    constructor() {
+        _grantRole(ADMIN_ROLE, msg.sender);
+
+        // The rule analyses used before rules were configurable
+        uint32[4] memory thresholds = [uint32(90), 85, 0, 0];
+        _storeRule(1, AnomalyRule("cpu-or-memory", RuleKind.Threshold, 3, false, thresholds, 0, 0, true));
+        ruleCount = 1;
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+
+    // The device role follows the registry: it comes with enrollment and goes with retirement
+    function grantRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        require(role != DEVICE_ROLE, "Enroll devices instead");
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        require(role != DEVICE_ROLE, "Retire devices instead");
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role) public {
+        require(role != DEVICE_ROLE, "Retire devices instead");
+        _revokeRole(role, msg.sender);
+    }
+
+    function _grantRole(bytes32 role, address account) private {
+        require(role == ADMIN_ROLE || role == ANALYST_ROLE || role == DEVICE_ROLE, "Unknown role");
+        require(account != address(0), "Invalid account");
+        if (roles[role][account]) return;
+
+        roles[role][account] = true;
+        if (role == ADMIN_ROLE) adminCount++;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function _revokeRole(bytes32 role, address account) private {
+        if (!roles[role][account]) return;
+        // Nobody could grant roles any more
+        require(role != ADMIN_ROLE || adminCount > 1, "Cannot remove the last admin");
+
+        roles[role][account] = false;
+        if (role == ADMIN_ROLE) adminCount--;
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    // The ACL holding every handle's grants, for clients checking who may decrypt what
+    function aclAddress() public pure returns (address) {
+        return ZamaConfig.getSepoliaConfig().ACLAddress;
+    }
+
+    function createFleet(string memory name) public onlyRole(ADMIN_ROLE) returns (uint256) {
+        require(bytes(name).length > 0, "Fleet name required");
+
+        fleetCount++;
+        fleets[fleetCount].name = name;
+        emit FleetCreated(fleetCount, name);
+        return fleetCount;
+    }
+
+    // A retired key stays taken, so its past submissions keep pointing at one device
+    function enrollDevice(address key, uint256 fleetId, bytes32 ownerCommitment)
+        public
+        onlyRole(ADMIN_ROLE)
+        returns (uint256)
+    {
+        require(deviceIdOf[key] == 0, "Already enrolled");
+        require(fleetId > 0 && fleetId <= fleetCount, "Invalid fleet");
+
+        _grantRole(DEVICE_ROLE, key);
+        deviceCount++;
+        devices[deviceCount] = Device(key, fleetId, ownerCommitment, true);
+        deviceIdOf[key] = deviceCount;
+        fleets[fleetId].activeDevices++;
+        emit DeviceEnrolled(deviceCount, fleetId, key);
+        return deviceCount;
+    }
+
+    function moveDevice(uint256 deviceId, uint256 fleetId) public onlyRole(ADMIN_ROLE) {
+        require(devices[deviceId].active, "Invalid device");
+        require(fleetId > 0 && fleetId <= fleetCount, "Invalid fleet");
+
+        fleets[devices[deviceId].fleetId].activeDevices--;
+        fleets[fleetId].activeDevices++;
+        devices[deviceId].fleetId = fleetId;
+        emit DeviceMoved(deviceId, fleetId);
+    }
+
+    // Admins retire lost or decommissioned devices; a device can also retire its own key
+    function retireDevice(uint256 deviceId) public {
+        Device storage device = devices[deviceId];
+        require(device.active, "Invalid device");
+        require(device.key == msg.sender || roles[ADMIN_ROLE][msg.sender], "Missing role");
+
+        device.active = false;
+        fleets[device.fleetId].activeDevices--;
+        _revokeRole(DEVICE_ROLE, device.key);
+        emit DeviceRetired(deviceId);
+    }
+
+    function isDeviceOwner(uint256 deviceId, address owner, bytes32 salt) public view returns (bool) {
+        bytes32 commitment = devices[deviceId].ownerCommitment;
+        return commitment != bytes32(0) && commitment == keccak256(abi.encode(owner, salt));
+    }
+
+    function getDeviceMetricCount(uint256 deviceId) public view returns (uint256) {
+        return deviceMetricIds[deviceId].length;
+    }
+
+    function addRule(AnomalyRule memory rule) public onlyRole(ADMIN_ROLE) returns (uint256) {
+        require(ruleCount < MAX_RULES, "Too many rules");
+
+        ruleCount++;
+        _storeRule(ruleCount, rule);
+        return ruleCount;
+    }
+
+    function updateRule(uint256 ruleId, AnomalyRule memory rule) public onlyRole(ADMIN_ROLE) {
+        require(ruleId > 0 && ruleId <= ruleCount, "Invalid rule");
+        _storeRule(ruleId, rule);
+    }
+
+    // Rules are never deleted, so the IDs in past AnomalyDetected events stay meaningful
+    function setRuleEnabled(uint256 ruleId, bool enabled) public onlyRole(ADMIN_ROLE) {
+        require(ruleId > 0 && ruleId <= ruleCount, "Invalid rule");
+        anomalyRules[ruleId].enabled = enabled;
+        emit AnomalyRuleChanged(ruleId);
+    }
+
+    function getRule(uint256 ruleId) public view returns (AnomalyRule memory) {
+        require(ruleId > 0 && ruleId <= ruleCount, "Invalid rule");
+        return anomalyRules[ruleId];
+    }
+
+    // How many metrics one analyzePerformanceHomomorphic call can take under the current rules
+    function homomorphicMetricLimit() public view returns (uint256) {
+        uint256 limit = HOMOMORPHIC_OP_BUDGET / (4 + 2 * _thresholdComparisons());
+        return limit < MAX_HOMOMORPHIC_METRICS ? limit : MAX_HOMOMORPHIC_METRICS;
+    }
+
+    function _storeRule(uint256 ruleId, AnomalyRule memory rule) private {
+        require(bytes(rule.name).length > 0, "Rule name required");
+        require(rule.fields > 0 && rule.fields < 16, "Invalid fields");
+        if (rule.kind == RuleKind.ZScore) {
+            // A single power of two
+            require(rule.fields & (rule.fields - 1) == 0, "Z-score rules watch one field");
+            require(rule.deviations > 0 && rule.deviations <= MAX_ZSCORE_DEVIATIONS, "Invalid deviations");
+            require(rule.window > 1 && rule.window <= MAX_ZSCORE_WINDOW, "Invalid window");
+        }
+
+        anomalyRules[ruleId] = rule;
+        emit AnomalyRuleChanged(ruleId);
+    }
+
+    function _thresholdComparisons() private view returns (uint256 comparisons) {
+        for (uint256 r = 1; r <= ruleCount; r++) {
+            AnomalyRule storage rule = anomalyRules[r];
+            if (!rule.enabled || rule.kind != RuleKind.Threshold) continue;
+            for (uint256 f = 0; f < 4; f++) {
+                if (rule.fields & (1 << f) != 0) comparisons++;
+            }
+        }
+    }
 
     function submitSystemMetric(
-        euint32 cpuUsage,
-        euint32 memoryUsage,
-        euint32 diskActivity,
-        euint32 networkTraffic
-    ) public {
+        externalEuint32 encryptedCpuUsage,
+        externalEuint32 encryptedMemoryUsage,
+        externalEuint32 encryptedDiskActivity,
+        externalEuint32 encryptedNetworkTraffic,
+        bytes calldata inputProof
+    ) public onlyRole(DEVICE_ROLE) {
+        euint32 cpuUsage = FHE.fromExternal(encryptedCpuUsage, inputProof);
+        euint32 memoryUsage = FHE.fromExternal(encryptedMemoryUsage, inputProof);
+        euint32 diskActivity = FHE.fromExternal(encryptedDiskActivity, inputProof);
+        euint32 networkTraffic = FHE.fromExternal(encryptedNetworkTraffic, inputProof);
+
+        FHE.allowThis(cpuUsage);
+        FHE.allowThis(memoryUsage);
+        FHE.allowThis(diskActivity);
+        FHE.allowThis(networkTraffic);
+        FHE.allow(cpuUsage, msg.sender);
+        FHE.allow(memoryUsage, msg.sender);
+        FHE.allow(diskActivity, msg.sender);
+        FHE.allow(networkTraffic, msg.sender);
+
+        uint256 deviceId = deviceIdOf[msg.sender];
+        uint256 fleetId = devices[deviceId].fleetId;
         metricCount++;
         systemMetrics[metricCount] = SystemMetric({
             encryptedCpuUsage: cpuUsage,
             encryptedMemoryUsage: memoryUsage,
             encryptedDiskActivity: diskActivity,
             encryptedNetworkTraffic: networkTraffic,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            deviceId: deviceId,
+            fleetId: fleetId
         });
-        emit MetricCollected(metricCount);
+        deviceMetricIndex[metricCount] = deviceMetricIds[deviceId].length;
+        deviceMetricIds[deviceId].push(metricCount);
+        emit MetricCollected(metricCount, deviceId, fleetId);
     }
 
     function reportCrash(
-        euint32 errorCode,
-        euint32 memoryDumpHash,
-        euint32 processId
-    ) public {
+        externalEuint32 encryptedErrorCode,
+        externalEuint32 encryptedMemoryDumpHash,
+        externalEuint32 encryptedProcessId,
+        bytes calldata inputProof
+    ) public onlyRole(DEVICE_ROLE) {
+        euint32 errorCode = FHE.fromExternal(encryptedErrorCode, inputProof);
+        euint32 memoryDumpHash = FHE.fromExternal(encryptedMemoryDumpHash, inputProof);
+        euint32 processId = FHE.fromExternal(encryptedProcessId, inputProof);
+
+        FHE.allowThis(errorCode);
+        FHE.allowThis(memoryDumpHash);
+        FHE.allowThis(processId);
+        FHE.allow(errorCode, msg.sender);
+        FHE.allow(memoryDumpHash, msg.sender);
+        FHE.allow(processId, msg.sender);
+
+        uint256 deviceId = deviceIdOf[msg.sender];
+        uint256 fleetId = devices[deviceId].fleetId;
         crashCount++;
         crashReports[crashCount] = CrashReport({
             encryptedErrorCode: errorCode,
             encryptedMemoryDumpHash: memoryDumpHash,
             encryptedProcessId: processId,
-            isAnalyzed: false
+            isAnalyzed: false,
+            deviceId: deviceId,
+            fleetId: fleetId
         });
-        emit CrashReported(crashCount);
+        emit CrashReported(crashCount, deviceId, fleetId);
     }
 
-    function analyzePerformance(uint256[] memory metricIds) public {
+    function analyzePerformance(uint256[] memory metricIds) public onlyRole(ANALYST_ROLE) {
         require(metricIds.length > 0, "No metrics provided");
         
         bytes32[] memory ciphertexts = new bytes32[](metricIds.length * 4);
         for (uint256 i = 0; i < metricIds.length; i++) {
+            require(metricIds[i] > 0 && metricIds[i] <= metricCount, "Invalid metric");
             ciphertexts[i*4] = FHE.toBytes32(systemMetrics[metricIds[i]].encryptedCpuUsage);
             ciphertexts[i*4+1] = FHE.toBytes32(systemMetrics[metricIds[i]].encryptedMemoryUsage);
             ciphertexts[i*4+2] = FHE.toBytes32(systemMetrics[metricIds[i]].encryptedDiskActivity);
@@ -84,7 +382,9 @@ contract PrivateOSFHE is SepoliaConfig {
         }
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.calculatePerformance.selector);
-        requestToMetricId[reqId] = metricIds[0];
+        requestToMetricIds[reqId] = metricIds;
+        requestToRequester[reqId] = msg.sender;
+        emit AnalysisRequested(reqId, metricIds);
     }
 
     function calculatePerformance(
@@ -92,28 +392,45 @@ contract PrivateOSFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 metricId = requestToMetricId[requestId];
-        require(metricId != 0, "Invalid request");
+        uint256[] memory metricIds = requestToMetricIds[requestId];
+        require(metricIds.length != 0, "Invalid request");
+        address requester = requestToRequester[requestId];
+        // Forgotten before anything is emitted, so resending the public calldata reverts
+        delete requestToMetricIds[requestId];
+        delete requestToRequester[requestId];
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint32[] memory metrics = abi.decode(cleartexts, (uint32[]));
-        uint32 totalCpu = 0;
+        uint256 sampleCount = metricIds.length;
+        uint256 totalCpu = 0;
         uint32 peakMemory = 0;
         uint32 anomalyScore = 0;
         
-        for (uint256 i = 0; i < metrics.length / 4; i++) {
-            totalCpu += metrics[i*4];
-            if (metrics[i*4+1] > peakMemory) {
-                peakMemory = metrics[i*4+1];
+        for (uint256 i = 0; i < sampleCount; i++) {
+            uint32[4] memory readings;
+            for (uint256 f = 0; f < 4; f++) {
+                readings[f] = _cleartextAt(cleartexts, i*4+f);
             }
-            // Simplified anomaly detection
-            if (metrics[i*4] > 90 || metrics[i*4+1] > 85) {
+            totalCpu += readings[0];
+            if (readings[1] > peakMemory) {
+                peakMemory = readings[1];
+            }
+            // Z-score rules need a baseline the request did not decrypt, see checkMetric
+            bool anomalous = false;
+            for (uint256 r = 1; r <= ruleCount; r++) {
+                AnomalyRule storage rule = anomalyRules[r];
+                if (!rule.enabled || rule.kind != RuleKind.Threshold) continue;
+                if (_exceedsThresholds(rule, readings)) {
+                    anomalous = true;
+                    emit AnomalyDetected(metricIds[i], r, rule.name);
+                }
+            }
+            if (anomalous) {
                 anomalyScore += 1;
             }
         }
         
-        uint32 avgCpu = totalCpu / uint32(metrics.length / 4);
+        uint32 avgCpu = uint32(totalCpu / sampleCount);
         
         analysisCount++;
         performanceAnalyses[analysisCount] = PerformanceAnalysis({
@@ -121,16 +438,182 @@ contract PrivateOSFHE is SepoliaConfig {
             encryptedPeakMemory: FHE.asEuint32(peakMemory),
             encryptedAnomalyScore: FHE.asEuint32(anomalyScore)
         });
+        analysisByRequest[requestId] = analysisCount;
 
-        if (anomalyScore > 0) {
-            emit AnomalyDetected(metricId);
-        }
+        // The callback runs as the oracle, so the requester's read access is granted explicitly
+        analysisRequester[analysisCount] = requester;
+        _allowAnalysis(performanceAnalyses[analysisCount], requester);
         
         emit AnalysisCompleted(analysisCount);
     }
 
-    function analyzeCrash(uint256 crashId) public {
-        require(crashId <= crashCount, "Invalid crash report");
+    // Same results as analyzePerformance, computed over the ciphertexts: no raw sample is ever
+    // decrypted, and only the requester (and viewers they add) can decrypt the aggregates.
+    // Sums wrap at 2^32, which percentages are far from reaching. AnomalyDetected is not
+    // emitted, since which samples matched a rule stays encrypted too.
+    function analyzePerformanceHomomorphic(uint256[] memory metricIds) public onlyRole(ANALYST_ROLE) returns (uint256) {
+        require(metricIds.length > 0, "No metrics provided");
+        require(metricIds.length <= homomorphicMetricLimit(), "Too many metrics");
+
+        euint32 totalCpu = FHE.asEuint32(0);
+        euint32 peakMemory = FHE.asEuint32(0);
+        euint32 anomalyScore = FHE.asEuint32(0);
+
+        for (uint256 i = 0; i < metricIds.length; i++) {
+            require(metricIds[i] > 0 && metricIds[i] <= metricCount, "Invalid metric");
+            SystemMetric storage metric = systemMetrics[metricIds[i]];
+
+            totalCpu = FHE.add(totalCpu, metric.encryptedCpuUsage);
+            peakMemory = FHE.max(peakMemory, metric.encryptedMemoryUsage);
+            ebool anomalous = FHE.asEbool(false);
+            for (uint256 r = 1; r <= ruleCount; r++) {
+                AnomalyRule storage rule = anomalyRules[r];
+                if (!rule.enabled || rule.kind != RuleKind.Threshold) continue;
+                anomalous = FHE.or(anomalous, _encryptedThresholdMatch(rule, metric));
+            }
+            anomalyScore = FHE.add(anomalyScore, FHE.asEuint32(anomalous));
+        }
+
+        analysisCount++;
+        performanceAnalyses[analysisCount] = PerformanceAnalysis({
+            encryptedAvgCpu: FHE.div(totalCpu, uint32(metricIds.length)),
+            encryptedPeakMemory: peakMemory,
+            encryptedAnomalyScore: anomalyScore
+        });
+        analysisRequester[analysisCount] = msg.sender;
+        _allowAnalysis(performanceAnalyses[analysisCount], msg.sender);
+
+        emit AnalysisCompleted(analysisCount);
+        return analysisCount;
+    }
+
+    function addAnalysisViewer(uint256 analysisId, address viewer) public {
+        require(analysisRequester[analysisId] == msg.sender, "Not analysis requester");
+
+        _allowAnalysis(performanceAnalyses[analysisId], viewer);
+        emit AnalysisViewerAdded(analysisId, viewer);
+    }
+
+    function _allowAnalysis(PerformanceAnalysis storage analysis, address viewer) private {
+        FHE.allowThis(analysis.encryptedAvgCpu);
+        FHE.allowThis(analysis.encryptedPeakMemory);
+        FHE.allowThis(analysis.encryptedAnomalyScore);
+        FHE.allow(analysis.encryptedAvgCpu, viewer);
+        FHE.allow(analysis.encryptedPeakMemory, viewer);
+        FHE.allow(analysis.encryptedAnomalyScore, viewer);
+    }
+
+    // The oracle ABI-encodes each cleartext as its own 32-byte word, in request order
+    function _cleartextAt(bytes memory cleartexts, uint256 index) private pure returns (uint32 value) {
+        assembly {
+            value := mload(add(cleartexts, add(32, mul(index, 32))))
+        }
+    }
+
+    function _exceedsThresholds(AnomalyRule storage rule, uint32[4] memory readings) private view returns (bool) {
+        for (uint256 f = 0; f < 4; f++) {
+            if (rule.fields & (1 << f) == 0) continue;
+            bool exceeded = readings[f] > rule.thresholds[f];
+            if (exceeded != rule.matchAll) return exceeded;
+        }
+        return rule.matchAll;
+    }
+
+    function _encryptedThresholdMatch(AnomalyRule storage rule, SystemMetric storage metric) private returns (ebool matched) {
+        bool first = true;
+        for (uint256 f = 0; f < 4; f++) {
+            if (rule.fields & (1 << f) == 0) continue;
+            ebool exceeded = FHE.gt(_reading(metric, f), rule.thresholds[f]);
+            if (first) {
+                matched = exceeded;
+                first = false;
+            } else {
+                matched = rule.matchAll ? FHE.and(matched, exceeded) : FHE.or(matched, exceeded);
+            }
+        }
+    }
+
+    function _reading(SystemMetric storage metric, uint256 field) private view returns (euint32) {
+        if (field == 0) return metric.encryptedCpuUsage;
+        if (field == 1) return metric.encryptedMemoryUsage;
+        if (field == 2) return metric.encryptedDiskActivity;
+        return metric.encryptedNetworkTraffic;
+    }
+
+    function _zscoreSample(SystemMetric storage metric, uint256 field) private returns (euint64) {
+        return FHE.asEuint64(FHE.min(_reading(metric, field), ZSCORE_READING_CAP));
+    }
+
+    // The baseline is the same device's previous `window` metrics. With n samples summing to S
+    // with squares summing to Q, x is more than k deviations away from the mean when
+    // (n*x - S)^2 > k^2 * (n*Q - S^2). Computed in 64 bits; readings above ZSCORE_READING_CAP count
+    // as the cap, which keeps every term below 2^61 for the largest window and deviation count.
+    function _encryptedZScoreMatch(AnomalyRule storage rule, uint256 metricId) private returns (ebool) {
+        uint256 field = 0;
+        while (rule.fields & (1 << field) == 0) field++;
+
+        uint256[] storage history = deviceMetricIds[systemMetrics[metricId].deviceId];
+        uint256 index = deviceMetricIndex[metricId];
+        euint64 sum = FHE.asEuint64(0);
+        euint64 sumOfSquares = FHE.asEuint64(0);
+        for (uint256 i = index - rule.window; i < index; i++) {
+            euint64 sample = _zscoreSample(systemMetrics[history[i]], field);
+            sum = FHE.add(sum, sample);
+            sumOfSquares = FHE.add(sumOfSquares, FHE.mul(sample, sample));
+        }
+
+        euint64 scaled = FHE.mul(_zscoreSample(systemMetrics[metricId], field), uint64(rule.window));
+        euint64 distance = FHE.sub(FHE.max(scaled, sum), FHE.min(scaled, sum));
+        euint64 variance = FHE.sub(FHE.mul(sumOfSquares, uint64(rule.window)), FHE.mul(sum, sum));
+        return FHE.gt(
+            FHE.mul(distance, distance),
+            FHE.mul(variance, uint64(rule.deviations) * uint64(rule.deviations))
+        );
+    }
+
+    // Evaluates one rule against one metric over the ciphertexts and decrypts nothing but the
+    // verdict. One rule per call keeps a z-score check within a transaction's FHE limits.
+    function checkMetric(uint256 metricId, uint256 ruleId) public onlyRole(ANALYST_ROLE) {
+        require(metricId > 0 && metricId <= metricCount, "Invalid metric");
+        require(ruleId > 0 && ruleId <= ruleCount, "Invalid rule");
+        AnomalyRule storage rule = anomalyRules[ruleId];
+        require(rule.enabled, "Rule disabled");
+
+        ebool fired;
+        if (rule.kind == RuleKind.Threshold) {
+            fired = _encryptedThresholdMatch(rule, systemMetrics[metricId]);
+        } else {
+            require(deviceMetricIndex[metricId] >= rule.window, "Not enough history");
+            fired = _encryptedZScoreMatch(rule, metricId);
+        }
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(fired);
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.metricChecked.selector);
+        requestToCheck[reqId] = MetricCheck(metricId, ruleId);
+    }
+
+    function metricChecked(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        MetricCheck memory check = requestToCheck[requestId];
+        require(check.metricId != 0, "Invalid request");
+        // The callback's calldata is public once it has run; forgetting the request stops replays
+        delete requestToCheck[requestId];
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool fired = abi.decode(cleartexts, (bool));
+        if (fired) {
+            emit AnomalyDetected(check.metricId, check.ruleId, anomalyRules[check.ruleId].name);
+        }
+        emit MetricChecked(check.metricId, check.ruleId, fired);
+    }
+
+    function analyzeCrash(uint256 crashId) public onlyRole(ANALYST_ROLE) {
+        require(crashId > 0 && crashId <= crashCount, "Invalid crash report");
         
         bytes32[] memory ciphertexts = new bytes32[](3);
         ciphertexts[0] = FHE.toBytes32(crashReports[crashId].encryptedErrorCode);
@@ -148,20 +631,16 @@ contract PrivateOSFHE is SepoliaConfig {
     ) public {
         uint256 crashId = requestToCrashId[requestId];
         require(crashId != 0, "Invalid request");
+        delete requestToCrashId[requestId];
 
+        // The decrypted error code, dump hash and PID are not analyzed on chain yet; the verified
+        // signatures are what marks the crash as analyzed
         FHE.checkSignatures(requestId, cleartexts, proof);
-
-        uint32[] memory crashData = abi.decode(cleartexts, (uint32[]));
-        uint32 errorCode = crashData[0];
-        uint32 memoryHash = crashData[1];
-        uint32 processId = crashData[2];
-        
-        // Process crash data (would use actual analysis in production)
         crashReports[crashId].isAnalyzed = true;
     }
 
-    function requestMetricDecryption(uint256 metricId) public {
-        require(metricId <= metricCount, "Invalid metric");
+    function requestMetricDecryption(uint256 metricId) public onlyRole(ANALYST_ROLE) {
+        require(metricId > 0 && metricId <= metricCount, "Invalid metric");
         
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(systemMetrics[metricId].encryptedCpuUsage);
@@ -177,11 +656,42 @@ contract PrivateOSFHE is SepoliaConfig {
     ) public {
         uint256 metricId = requestToMetricId[requestId];
         require(metricId != 0, "Invalid request");
+        delete requestToMetricId[requestId];
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         uint32 cpuUsage = abi.decode(cleartexts, (uint32));
-        // Process decrypted metric
+        // The cleartext is already public in this callback's calldata
+        emit MetricDecrypted(metricId, cpuUsage);
+    }
+
+    // ACL grants are permanent: revoking the analyst role later does not take this access back
+    function grantMetricAccess(uint256 metricId, address analyst) public onlyRole(ADMIN_ROLE) {
+        require(metricId > 0 && metricId <= metricCount, "Invalid metric");
+        require(roles[ANALYST_ROLE][analyst], "Not an analyst");
+
+        SystemMetric storage metric = systemMetrics[metricId];
+        FHE.allow(metric.encryptedCpuUsage, analyst);
+        FHE.allow(metric.encryptedMemoryUsage, analyst);
+        FHE.allow(metric.encryptedDiskActivity, analyst);
+        FHE.allow(metric.encryptedNetworkTraffic, analyst);
+        emit MetricAccessGranted(metricId, analyst);
+    }
+
+    // Lets an analyst contract compute on a metric within the calling transaction only,
+    // without a permanent grant
+    function metricForAnalysis(uint256 metricId)
+        public
+        onlyRole(ANALYST_ROLE)
+        returns (euint32 cpuUsage, euint32 memoryUsage, euint32 diskActivity, euint32 networkTraffic)
+    {
+        require(metricId > 0 && metricId <= metricCount, "Invalid metric");
+
+        SystemMetric storage metric = systemMetrics[metricId];
+        cpuUsage = FHE.allowTransient(metric.encryptedCpuUsage, msg.sender);
+        memoryUsage = FHE.allowTransient(metric.encryptedMemoryUsage, msg.sender);
+        diskActivity = FHE.allowTransient(metric.encryptedDiskActivity, msg.sender);
+        networkTraffic = FHE.allowTransient(metric.encryptedNetworkTraffic, msg.sender);
     }
 
     function getCrashAnalysisStatus(uint256 crashId) public view returns (bool) {
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\customer-backend\fixture.go
-// Generated at: 2025-10-13T13:07:23.671Z
\ No newline at end of file
@@ -1,385 +1,203 @@
 // deploy/deploy.ts
 import fs from "fs";
 import path from "path";
-import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import hre from "hardhat";
 
-
-const WORD_LIBRARY = [
-
-  'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
-  'frontend', 'gateway', 'handler', 'interface', 'middleware', 'model', 'module',
-  'provider', 'router', 'service', 'util', 'validator', 'adapter', 'bridge',
-  'decorator', 'factory', 'manager', 'registry', 'resolver', 'serializer',
-  
-
-  'user', 'account', 'profile', 'payment', 'order', 'product', 'inventory',
-  'customer', 'admin', 'notification', 'message', 'email', 'sms', 'upload',
-  'download', 'export', 'import', 'report', 'analytics', 'statistics',
-  
-
-  'types', 'constants', 'helpers', 'hooks', 'styles', 'components', 'layouts',
-  'pages', 'routes', 'queries', 'mutations', 'subscriptions', 'fragments',
-  
-
-  'main', 'common', 'shared', 'global', 'local', 'base', 'core', 'advanced',
-  'simple', 'complex', 'dynamic', 'static', 'responsive', 'adaptive', 'secure',
-  
-  'utils', 'lib', 'src', 'dist', 'build', 'test', 'spec', 'mock', 'fixture',
-  'example', 'demo', 'template', 'boilerplate', 'configuration', 'environment'
-];
-
-
-const FILE_EXTENSIONS = {
-  code: ['.ts', '.js', '.tsx', '.jsx', '.sol', '.java', '.py', '.rs', '.go'],
-  config: ['.json', '.yaml', '.yml', '.toml', '.ini', '.env'],
-  docs: ['.md', '.txt', '.rst', '.adoc'],
-  styles: ['.css', '.scss', '.sass', '.less', '.styl']
-};
-
-const DIFF_CONFIG = {
-  minFolders: 3,
-  maxFolders: 8,
-  minFilesPerFolder: 1,
-  maxFilesPerFolder: 5,
-  maxDepth: 3
-};
-
-interface GeneratedFile {
-  path: string;
-  type: 'file' | 'folder';
-  content?: string;
+interface ManifestEntry {
+  name: string;
+  args?: unknown[];
+  // Copy the ABI and address into the frontend config after deploying
+  frontend?: boolean;
 }
 
-class DifferentialGenerator {
-  private cacheFile: string;
-  private projectRoot: string;
-  private existingPaths: Set<string>;
-
-  constructor(projectRoot: string) {
-    this.projectRoot = projectRoot;
-    this.cacheFile = path.join(projectRoot, '.diffcache');
-    this.existingPaths = this.getAllExistingPaths();
-  }
-
-  private getAllExistingPaths(): Set<string> {
-    const paths = new Set<string>();
-    
-    const scanDirectory = (dir: string) => {
-      try {
-        const items = fs.readdirSync(dir);
-        for (const item of items) {
-          if (item === '.diffcache') continue; 
-          
-          const fullPath = path.join(dir, item);
-          const relativePath = path.relative(this.projectRoot, fullPath);
-          paths.add(relativePath);
-          
-          if (fs.statSync(fullPath).isDirectory()) {
-            scanDirectory(fullPath);
-          }
-        }
-      } catch (error) {
-
-      }
-    };
-    
-    scanDirectory(this.projectRoot);
-    return paths;
-  }
-
-  private getRandomItem<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
-  }
-
-  private generateFileName(): string {
-    const wordCount = Math.floor(Math.random() * 3) + 1;
-    const words: string[] = [];
-    
-    for (let i = 0; i < wordCount; i++) {
-      words.push(this.getRandomItem(WORD_LIBRARY));
-    }
-    
-    return words.join('-');
-  }
-
-  private generateFileExtension(): string {
-    const extTypes = Object.values(FILE_EXTENSIONS).flat();
-    return this.getRandomItem(extTypes);
-  }
-
-  private generateFolderName(): string {
-    return this.generateFileName();
-  }
-
-  private generateFileContent(filePath: string): string {
-    const ext = path.extname(filePath);
-    
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
-        return this.generateTypeScriptContent();
-      case '.json':
-        return this.generateJSONContent();
-      case '.md':
-        return this.generateMarkdownContent();
-      case '.css':
-      case '.scss':
-        return this.generateStyleContent();
-      case '.sol':
-        return this.generateSolidityContent();
-      default:
-        return `// Auto-generated file: ${filePath}\n// Generated at: ${new Date().toISOString()}`;
-    }
-  }
+interface Manifest {
+  contracts: ManifestEntry[];
+}
 
-  private generateTypeScriptContent(): string {
-    const imports = [
-      "import React from 'react';",
-      "import { useState, useEffect } from 'react';",
-      "import { ethers } from 'ethers';",
-      "import axios from 'axios';",
-      "export const config = { runtime: 'edge' };"
-    ];
-    
-    const contents = [
-      `export const ${this.generateFileName()} = () => { return null; };`,
-      `export default function ${this.generateFileName()}() { return <div>Component</div>; }`,
-      `export const use${this.generateFileName()} = () => { return {}; };`,
-      `interface ${this.generateFileName()}Props { data: string }`
-    ];
-    
-    return `${this.getRandomItem(imports)}\n\n${this.getRandomItem(contents)}\n`;
-  }
+interface CompilerInfo {
+  version: string;
+  settings: unknown;
+}
 
-  private generateJSONContent(): string {
-    const configs = {
-      settings: { theme: "dark", language: "en" },
-      dependencies: { [this.generateFileName()]: "^1.0.0" },
-      rules: { [this.generateFileName()]: "warn" }
-    };
-    
-    return JSON.stringify(this.getRandomItem(Object.values(configs)), null, 2);
-  }
+// The ABI and build are captured at deploy time: a later recompile must not change what
+// a contract that was not redeployed is said to be built from
+interface DeploymentRecord {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  args: unknown[];
+  abi: unknown[];
+  // Missing from records written before builds were tracked
+  sourceName?: string;
+  buildInfoId?: string;
+  compiler?: CompilerInfo;
+}
 
-  private generateMarkdownContent(): string {
-    return `# ${this.generateFileName()}\n\nThis is an auto-generated documentation file.\n\n## Usage\n\nExample usage goes here.\n\n## Configuration\n\nAdd your configuration details here.`;
-  }
+// Everything needed to talk to (and re-verify) a deployment, without timestamps so reruns
+// against the same deployments produce the same file
+interface DeploymentBundle {
+  network: string;
+  chainId: number;
+  contracts: Record<string, {
+    address: string;
+    // Where log scans can start
+    blockNumber: number;
+    sourceName: string;
+    buildInfoId: string;
+    compiler: CompilerInfo;
+    abi: unknown[];
+  }>;
+}
 
-  private generateStyleContent(): string {
-    return `.${this.generateFileName()} {\n  margin: 0;\n  padding: 1rem;\n  background-color: #fff;\n}\n\n.container {\n  max-width: 1200px;\n  margin: 0 auto;\n}`;
-  }
+interface DeploymentsFile {
+  network: string;
+  chainId: number;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, DeploymentRecord>;
+}
 
-  private generateSolidityContent(): string {
-    return `// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract ${this.generateFileName()} {\n    address public owner;\n    \n    constructor() {\n        owner = msg.sender;\n    }\n    \n    function dummy() public pure returns (uint256) {\n        return 42;\n    }\n}`;
-  }
+const PROJECT_ROOT = path.join(__dirname, "..");
+const FRONTEND_SRC = path.join(PROJECT_ROOT, "frontend", "web", "src");
 
-  private generateUniquePath(baseDir: string, isFile: boolean = true): string {
-    let attempts = 0;
-    let fullPath: string;
-    let relativePath: string;
-    
-    do {
-      const name = isFile ? 
-        `${this.generateFileName()}${this.generateFileExtension()}` : 
-        this.generateFolderName();
-      
-      fullPath = path.join(baseDir, name);
-      relativePath = path.relative(this.projectRoot, fullPath);
-      attempts++;
-    } while (this.existingPaths.has(relativePath) && attempts < 50);
-    
-    this.existingPaths.add(relativePath);
-    return fullPath;
+function loadManifest(file: string): Manifest {
+  const manifest = JSON.parse(fs.readFileSync(file, "utf8")) as Manifest;
+  if (!Array.isArray(manifest.contracts) || manifest.contracts.length === 0) {
+    throw new Error(`Deploy manifest ${file} lists no contracts`);
   }
+  return manifest;
+}
 
-  private cleanPreviousFiles(): void {
-    if (!fs.existsSync(this.cacheFile)) {
-      console.log("No previous differential files to clean.");
-      return;
-    }
+// Earlier entries for contracts not in this run are kept, so partial manifests don't drop deployments
+function loadDeployments(file: string, network: string, chainId: number, deployer: string): DeploymentsFile {
+  const existing = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentsFile) : null;
+  return {
+    network,
+    chainId,
+    deployer,
+    updatedAt: new Date().toISOString(),
+    contracts: existing?.chainId === chainId ? existing.contracts : {},
+  };
+}
 
-    try {
-      const previousFiles = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as string[];
-      console.log(`Cleaning ${previousFiles.length} previous differential files...`);
-      
-      for (const filePath of previousFiles) {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            console.log(`Deleted: ${filePath}`);
+async function deployEntry(entry: ManifestEntry): Promise<DeploymentRecord> {
+  const args = entry.args ?? [];
+  const factory = await hre.ethers.getContractFactory(entry.name);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+
+  const receipt = await contract.deploymentTransaction()?.wait();
+  if (!receipt) {
+    throw new Error(`No deployment receipt for ${entry.name}`);
+  }
+
+  const artifact = await hre.artifacts.readArtifact(entry.name);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${entry.name}, run "npm run compile" first`);
+  }
+  return {
+    address: await contract.getAddress(),
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    args,
+    abi: artifact.abi,
+    sourceName: artifact.sourceName,
+    buildInfoId: buildInfo.id,
+    compiler: { version: buildInfo.solcLongVersion, settings: buildInfo.input.settings },
+  };
+}
 
-            let dir = path.dirname(filePath);
-            while (dir !== this.projectRoot) {
-              try {
-                const files = fs.readdirSync(dir);
-                if (files.length === 0) {
-                  fs.rmdirSync(dir);
-                  console.log(`Removed empty directory: ${dir}`);
-                  dir = path.dirname(dir);
-                } else {
-                  break;
-                }
-              } catch (error) {
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to delete ${filePath}:`, error);
-        }
-      }
-      
+// Built from the records alone, never from the current artifacts
+function buildBundle(deployments: DeploymentsFile): DeploymentBundle {
+  const bundle: DeploymentBundle = { network: deployments.network, chainId: deployments.chainId, contracts: {} };
 
-      fs.unlinkSync(this.cacheFile);
-    } catch (error) {
-      console.warn("Error cleaning previous files:", error);
+  for (const name of Object.keys(deployments.contracts).sort()) {
+    const record = deployments.contracts[name];
+    if (!record.sourceName || !record.buildInfoId || !record.compiler) {
+      console.warn(`${name} was deployed before builds were recorded, leaving it out of the bundle; redeploy to add it`);
+      continue;
     }
-  }
-
-  public generateDifferentialFiles(): string[] {
-    this.cleanPreviousFiles();
-    
-    const generatedFiles: string[] = [];
-    const folderCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFolders - DIFF_CONFIG.minFolders + 1)) + DIFF_CONFIG.minFolders;
-    
-    console.log(`Generating ${folderCount} differential folders...`);
-    
-    const generateInDirectory = (currentDir: string, depth: number = 0): void => {
-      if (depth > DIFF_CONFIG.maxDepth) return;
-      
-
-      const fileCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFilesPerFolder - DIFF_CONFIG.minFilesPerFolder + 1)) + DIFF_CONFIG.minFilesPerFolder;
-      
-      for (let i = 0; i < fileCount; i++) {
-        const filePath = this.generateUniquePath(currentDir, true);
-        
-        try {
-          fs.mkdirSync(path.dirname(filePath), { recursive: true });
-          const content = this.generateFileContent(filePath);
-          fs.writeFileSync(filePath, content);
-          generatedFiles.push(filePath);
-          console.log(`Created: ${filePath}`);
-        } catch (error) {
-          console.warn(`Failed to create file ${filePath}:`, error);
-        }
-      }
-      
-
-      if (depth < DIFF_CONFIG.maxDepth && Math.random() > 0.5) {
-        const subFolderPath = this.generateUniquePath(currentDir, false);
-        
-        try {
-          fs.mkdirSync(subFolderPath, { recursive: true });
-          generatedFiles.push(subFolderPath);
-          console.log(`Created folder: ${subFolderPath}`);
-          generateInDirectory(subFolderPath, depth + 1);
-        } catch (error) {
-          console.warn(`Failed to create folder ${subFolderPath}:`, error);
-        }
-      }
+    bundle.contracts[name] = {
+      address: record.address,
+      blockNumber: record.blockNumber,
+      sourceName: record.sourceName,
+      buildInfoId: record.buildInfoId,
+      compiler: record.compiler,
+      abi: record.abi,
     };
-    
-
-    const baseDirs = [
-      this.projectRoot,
-      path.join(this.projectRoot, 'src'),
-      path.join(this.projectRoot, 'frontend', 'web', 'src')
-    ];
-    
-    for (const baseDir of baseDirs) {
-      if (fs.existsSync(baseDir)) {
-        for (let i = 0; i < Math.ceil(folderCount / baseDirs.length); i++) {
-          generateInDirectory(baseDir);
-        }
-      }
-    }
-    
-
-    if (generatedFiles.length > 0) {
-      fs.writeFileSync(this.cacheFile, JSON.stringify(generatedFiles, null, 2));
-      console.log(`Generated ${generatedFiles.length} differential files. Cache saved to: ${this.cacheFile}`);
-    }
-    
-    return generatedFiles;
   }
+  return bundle;
 }
 
-async function ask(prompt: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise<string>((resolve) =>
-    rl.question(prompt, (ans) => {
-      rl.close();
-      resolve(ans.trim());
-    })
+function writeFrontendConfig(name: string, record: DeploymentRecord, deployer: string) {
+  if (!fs.existsSync(FRONTEND_SRC)) {
+    console.warn("Frontend src directory not found, skipping config.json write:", FRONTEND_SRC);
+    return;
+  }
+
+  // Addresses are kept per network key of networks.json; other networks and the legacy
+  // UniversalAdapter address are left as they are
+  const configPath = path.join(FRONTEND_SRC, "config.json");
+  const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
+  const networks = existing.networks ?? {};
+  const addressKey = `${name.charAt(0).toLowerCase()}${name.slice(1)}Address`;
+  networks[hre.network.name] = { ...networks[hre.network.name], [addressKey]: record.address, deployer };
+  fs.writeFileSync(configPath, JSON.stringify({ ...existing, networks }, null, 2));
+  console.log(`Wrote ${addressKey} for ${hre.network.name} to frontend/web/src/config.json`);
+
+  const abiDir = path.join(FRONTEND_SRC, "abi");
+  fs.mkdirSync(abiDir, { recursive: true });
+  fs.copyFileSync(
+    path.join(hre.config.paths.artifacts, "contracts", `${name}.sol`, `${name}.json`),
+    path.join(abiDir, `${name}.json`)
   );
+  console.log(`Copied ABI to frontend/web/src/abi/${name}.json`);
 }
 
+// Usage: npx hardhat run deploy/deploy.ts --network <hardhat|localhost|sepolia>
+// DEPLOY_MANIFEST overrides the manifest path; the deployer key comes from the network's accounts.
 async function main() {
-  const projectRoot = path.join(__dirname, "..");
-  
-
-  console.log("=== Generating Differential Files ===");
-  const generator = new DifferentialGenerator(projectRoot);
-  generator.generateDifferentialFiles();
-  console.log("=== Differential Files Generation Complete ===\n");
+  const manifestPath = path.resolve(process.env.DEPLOY_MANIFEST || path.join(__dirname, "manifest.json"));
+  const manifest = loadManifest(manifestPath);
 
+  const [deployer] = await hre.ethers.getSigners();
+  if (!deployer) {
+    throw new Error(`No deployer account for network "${hre.network.name}", set PRIVATE_KEY`);
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
 
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
+  // The in-process hardhat network is gone after this run, so there is nothing worth recording
+  const persistent = hre.network.name !== "hardhat";
+  const deploymentsDir = path.join(PROJECT_ROOT, "deployments");
+  const deploymentsPath = path.join(deploymentsDir, `${hre.network.name}.json`);
+  const deployments = loadDeployments(deploymentsPath, hre.network.name, Number(chainId), deployer.address);
 
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
+  console.log(`Deploying ${manifest.contracts.length} contract(s) to ${hre.network.name} (chainId ${chainId}) as ${deployer.address}`);
 
-  console.log("Deployer account:", wallet.address);
+  for (const entry of manifest.contracts) {
+    const record = await deployEntry(entry);
+    deployments.contracts[entry.name] = record;
+    console.log(`${entry.name} deployed at ${record.address} (tx ${record.txHash}, block ${record.blockNumber})`);
 
-  // Deploy the plain UniversalAdapter contract
-  const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-  const factory = await UniversalAdapterFactory.deploy();
-  await factory.waitForDeployment();
+    if (entry.frontend && persistent) {
+      writeFrontendConfig(entry.name, record, deployer.address);
+    }
+  }
 
-  const deployedAddress = (factory as any).target || (factory as any).address;
-  console.log("UniversalAdapter contract deployed at:", deployedAddress);
+  if (persistent) {
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+    fs.writeFileSync(deploymentsPath, JSON.stringify(deployments, null, 2));
+    console.log(`Wrote deployments/${hre.network.name}.json`);
 
-  // Write config for the frontend
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
-  } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+    const bundle = JSON.stringify(buildBundle(deployments), null, 2);
+    fs.writeFileSync(path.join(deploymentsDir, `${hre.network.name}.bundle.json`), bundle);
+    console.log(`Wrote deployments/${hre.network.name}.bundle.json`);
 
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
+    if (manifest.contracts.some((entry) => entry.frontend) && fs.existsSync(FRONTEND_SRC)) {
+      fs.mkdirSync(path.join(FRONTEND_SRC, "deployments"), { recursive: true });
+      fs.writeFileSync(path.join(FRONTEND_SRC, "deployments", `${hre.network.name}.json`), bundle);
+      console.log(`Copied bundle to frontend/web/src/deployments/${hre.network.name}.json`);
     }
   }
 }
@@ -387,4 +205,4 @@ async function main() {
 main().catch((e) => {
   console.error(e);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\adapter-product-dynamic.rs
-// Generated at: 2025-10-13T13:07:23.679Z
\ No newline at end of file
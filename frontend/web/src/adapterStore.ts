@@ -0,0 +1,127 @@
+// adapterStore.ts
+import { ethers } from "ethers";
+import { decodeMetricRecord, encodeMetricRecord, MetricRecord } from "./recordCodec";
+
+// Storage layer over UniversalAdapter's flat key/value store. Every metric is one
+// `metric_<id>` record written by a single setData, and the list of metrics comes from the
+// DataStored events of those writes. Nothing shares a read-modify-write index, so concurrent
+// submitters cannot drop each other's metrics and there is no second tx to fail halfway.
+
+export const METRIC_PREFIX = "metric_";
+
+// Written by older clients after each metric; read-only here and only used as a seed
+const LEGACY_INDEX_KEY = "metric_keys";
+
+// Block span per eth_getLogs call, within what public Sepolia RPCs accept
+const LOG_CHUNK = 5000;
+
+export interface MetricIndex {
+  // Oldest first
+  ids: string[];
+  // Records that exist on-chain but are missing from the legacy `metric_keys` index, either
+  // from an interrupted two-step write or because they were written through this layer
+  orphans: string[];
+}
+
+export function metricIdFromKey(key: string): string | null {
+  if (!key.startsWith(METRIC_PREFIX) || key === LEGACY_INDEX_KEY) return null;
+  return key.substring(METRIC_PREFIX.length);
+}
+
+export function newMetricId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/** IDs of metric records written in [fromBlock, toBlock], deduplicated in order of first write. */
+export async function scanMetricWrites(contract: ethers.Contract, fromBlock: number, toBlock: number): Promise<string[]> {
+  const seen = new Set<string>();
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK) {
+    const end = Math.min(toBlock, start + LOG_CHUNK - 1);
+    const logs = await contract.queryFilter(contract.filters.DataStored(), start, end);
+    for (const log of logs) {
+      const id = metricIdFromKey((log as ethers.EventLog).args.key);
+      if (id !== null) seen.add(id);
+    }
+  }
+  return [...seen];
+}
+
+// Binary search over getCode; needs an RPC that serves historical state, so null if it can't
+async function findDeployBlock(provider: ethers.Provider, address: string, latest: number): Promise<number | null> {
+  try {
+    let low = 0;
+    let high = latest;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await provider.getCode(address, mid)) !== "0x") {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  } catch (e) {
+    console.warn("Could not locate the adapter deployment block:", e);
+    return null;
+  }
+}
+
+async function readLegacyIndex(contract: ethers.Contract, blockTag: number): Promise<string[]> {
+  const bytes = await contract.getData(LEGACY_INDEX_KEY, { blockTag });
+  if (ethers.dataLength(bytes) === 0) return [];
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    console.error("Error parsing legacy metric index:", e);
+    return [];
+  }
+}
+
+/**
+ * Rebuilds the full metric list as of `toBlock` from DataStored events since deployment,
+ * merged with the legacy index for anything the event scan could not reach.
+ */
+export async function rebuildMetricIndex(contract: ethers.Contract, toBlock: number): Promise<MetricIndex> {
+  const provider = contract.runner!.provider!;
+  const address = await contract.getAddress();
+
+  const legacy = await readLegacyIndex(contract, toBlock);
+  const deployBlock = await findDeployBlock(provider, address, toBlock);
+  if (deployBlock === null) {
+    console.warn(`Scanning only the last ${LOG_CHUNK} blocks; older metrics come from the legacy index`);
+  }
+
+  const written = await scanMetricWrites(contract, deployBlock ?? Math.max(0, toBlock - LOG_CHUNK + 1), toBlock);
+  const writtenSet = new Set(written);
+  const legacySet = new Set(legacy);
+
+  return {
+    ids: [...legacy.filter(id => !writtenSet.has(id)), ...written],
+    orphans: written.filter(id => !legacySet.has(id))
+  };
+}
+
+export async function readMetricRecord(contract: ethers.Contract, id: string): Promise<MetricRecord | null> {
+  const bytes = await contract.getData(`${METRIC_PREFIX}${id}`);
+  if (ethers.dataLength(bytes) === 0) return null;
+
+  const result = decodeMetricRecord(id, bytes);
+  if (!result.ok) {
+    throw new Error(`Metric ${id} is ${result.issue.kind}: ${result.issue.reason}`);
+  }
+  return result.record;
+}
+
+export async function writeMetricRecord(contract: ethers.Contract, id: string, record: Omit<MetricRecord, "v">) {
+  return contract.setData(`${METRIC_PREFIX}${id}`, encodeMetricRecord(record));
+}
+
+// Only the record itself is rewritten, so this is safe alongside other writers. Older records
+// are migrated to the current version on the way through.
+export async function updateMetricRecord(contract: ethers.Contract, id: string, patch: Partial<Omit<MetricRecord, "v">>) {
+  const record = await readMetricRecord(contract, id);
+  if (!record) {
+    throw new Error("Metric not found");
+  }
+  return writeMetricRecord(contract, id, { ...record, ...patch });
+}
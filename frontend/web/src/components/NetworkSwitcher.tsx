@@ -0,0 +1,40 @@
+import React from "react";
+import { contractAddress, NETWORKS, selectNetwork, switchWalletNetwork, useActiveNetwork } from "../networks";
+import { useWallet } from "../wallet";
+
+interface NetworkSwitcherProps {
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const NetworkSwitcher: React.FC<NetworkSwitcherProps> = ({ onStatus }) => {
+  const network = useActiveNetwork();
+  const session = useWallet();
+
+  const onChange = async (key: string) => {
+    const next = selectNetwork(key);
+    // Reads follow the selection right away; the wallet only matters once something is signed
+    if (session.status !== "connected" || !session.wallet) return;
+    try {
+      await switchWalletNetwork(session.wallet.provider, next);
+    } catch (e: any) {
+      onStatus("error", `Switch your wallet to ${next.name}: ${e.message || "request rejected"}`);
+    }
+  };
+
+  return (
+    <select
+      className="glass-select"
+      value={network.key}
+      onChange={(e) => onChange(e.target.value)}
+      title="Network used for every contract and relayer call"
+    >
+      {NETWORKS.map(n => (
+        <option key={n.key} value={n.key}>
+          {n.name}{contractAddress("privateOSFHEAddress", n) ? "" : " (not deployed)"}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default NetworkSwitcher;
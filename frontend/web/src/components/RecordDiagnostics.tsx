@@ -0,0 +1,75 @@
+import React from "react";
+import { METRIC_RECORD_VERSION, RecordIssue } from "../recordCodec";
+import { SystemMetric } from "../legacyMetrics";
+
+const KIND_LABELS: Record<RecordIssue["kind"], string> = {
+  "malformed": "malformed",
+  "foreign": "foreign",
+  "unsupported-version": "newer version",
+  "invalid": "invalid"
+};
+
+interface RecordDiagnosticsProps {
+  issues: RecordIssue[];
+  metrics: SystemMetric[];
+}
+
+const RecordDiagnostics: React.FC<RecordDiagnosticsProps> = ({ issues, metrics }) => {
+  const migrated = metrics.filter(m => m.migratedFrom !== null).length;
+
+  return (
+    <div className="metrics-section">
+      <div className="section-header">
+        <h2>Record Diagnostics</h2>
+      </div>
+
+      <div className="dashboard-card glass-card">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">v{METRIC_RECORD_VERSION}</div>
+            <div className="stat-label">Schema Version</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{migrated}</div>
+            <div className="stat-label">Migrated on Read</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{issues.length}</div>
+            <div className="stat-label">Rejected Entries</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">ID</div>
+          <div className="header-cell">Problem</div>
+          <div className="header-cell">Reason</div>
+          <div className="header-cell">Stored Value</div>
+          <div className="header-cell"></div>
+          <div className="header-cell"></div>
+        </div>
+        {issues.length === 0 ? (
+          <div className="no-metrics">
+            <p>All loaded records decoded cleanly</p>
+          </div>
+        ) : (
+          issues.map(issue => (
+            <div className="metric-row" key={issue.id}>
+              <div className="table-cell metric-id">#{issue.id.substring(0, 6)}</div>
+              <div className="table-cell">
+                <span className="status-badge inactive">{KIND_LABELS[issue.kind]}</span>
+              </div>
+              <div className="table-cell">{issue.reason}</div>
+              <div className="table-cell" title={issue.preview}>{issue.preview.substring(0, 24)}</div>
+              <div className="table-cell"></div>
+              <div className="table-cell"></div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordDiagnostics;
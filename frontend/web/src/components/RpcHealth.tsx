@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react";
+import { useActiveNetwork } from "../networks";
+import { EndpointHealth, getRpcManager } from "../rpc";
+
+const RpcHealth: React.FC = () => {
+  const network = useActiveNetwork();
+  const rpc = getRpcManager(network);
+  const [endpoints, setEndpoints] = useState<EndpointHealth[]>(() => rpc.health());
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setEndpoints(rpc.health());
+    return rpc.subscribe(() => setEndpoints(rpc.health()));
+  }, [rpc]);
+
+  const recheck = async () => {
+    setChecking(true);
+    try {
+      await rpc.probeAll();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="metrics-section">
+      <div className="section-header">
+        <h2>RPC Endpoints ({network.name})</h2>
+        <div className="header-actions">
+          <button className="refresh-btn glass-button" onClick={recheck} disabled={checking}>
+            {checking ? "Checking..." : "Re-check"}
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Endpoint</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Latency</div>
+          <div className="header-cell">Error Rate</div>
+          <div className="header-cell">Requests</div>
+          <div className="header-cell">Last Error</div>
+        </div>
+        {endpoints.map(endpoint => (
+          <div className="metric-row" key={endpoint.url}>
+            <div className="table-cell metric-id">
+              {endpoint.active ? "▶ " : ""}{endpoint.label}
+            </div>
+            <div className="table-cell">
+              <span className={`status-badge ${endpoint.status}`}>{endpoint.status}</span>
+            </div>
+            <div className="table-cell">{endpoint.latencyMs === null ? "-" : `${endpoint.latencyMs} ms`}</div>
+            <div className="table-cell">{Math.round(endpoint.errorRate * 100)}%</div>
+            <div className="table-cell">{endpoint.requests}</div>
+            <div className="table-cell" title={endpoint.lastError ?? ""}>
+              {endpoint.lastError ? endpoint.lastError.substring(0, 40) : "-"}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RpcHealth;
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  analyzePerformance,
+  fetchAccountRoles,
+  fetchCounts,
+  fetchSystemMetric,
+  getPrivateOSReadOnly,
+  latestIds,
+  PrivateOSCounts,
+  PrivateOSRole,
+  shortHandle,
+  submitSystemMetric,
+  SystemMetricRecord,
+  SystemMetricSample
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+const PAGE_SIZE = 20;
+
+interface TelemetryDashboardProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+  // Opened from this section or from the header's Add Metric button
+  sampleModalOpen: boolean;
+  onSampleModal: (open: boolean) => void;
+}
+
+const TelemetryDashboard: React.FC<TelemetryDashboardProps> = ({ account, onStatus, sampleModalOpen, onSampleModal }) => {
+  const [available, setAvailable] = useState(true);
+  const [counts, setCounts] = useState<PrivateOSCounts>({ metricCount: 0, crashCount: 0, analysisCount: 0 });
+  const [metrics, setMetrics] = useState<SystemMetricRecord[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [ownRoles, setOwnRoles] = useState<PrivateOSRole[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [sample, setSample] = useState<SystemMetricSample>({
+    cpuUsage: "",
+    memoryUsage: "",
+    diskActivity: "",
+    networkTraffic: ""
+  });
+
+  // The contract takes metrics from enrolled device keys only
+  const isDevice = ownRoles.includes("device");
+
+  useEffect(() => {
+    loadTelemetry();
+  }, [account]);
+
+  const loadTelemetry = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+
+      const next = await fetchCounts(contract);
+      setCounts(next);
+      setOwnRoles(account ? await fetchAccountRoles(contract, account) : []);
+      setMetrics(await Promise.all(
+        latestIds(next.metricCount, PAGE_SIZE).map(id => fetchSystemMetric(contract, id))
+      ));
+    } catch (e) {
+      console.error("Error loading telemetry:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const requireAccount = () => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return false;
+    }
+    return true;
+  };
+
+  const submitSample = async () => {
+    if (!requireAccount()) return;
+
+    setSubmitting(true);
+    try {
+      const tx = await submitSystemMetric(account, sample);
+      onSampleModal(false);
+      setSample({ cpuUsage: "", memoryUsage: "", diskActivity: "", networkTraffic: "" });
+      await trackTransaction(tx, "Submit telemetry sample");
+      await loadTelemetry();
+    } catch (e: any) {
+      onStatus("error", "Submission failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const runPerformanceAnalysis = async () => {
+    if (!requireAccount() || selectedIds.length === 0) return;
+
+    try {
+      const tx = await analyzePerformance(selectedIds);
+      await trackTransaction(tx, `Analyze ${selectedIds.length} metrics`);
+      setSelectedIds([]);
+    } catch (e: any) {
+      onStatus("error", "Analysis request failed: " + describeTransactionError(e));
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  return (
+    <div className="metrics-section">
+      <div className="section-header">
+        <h2>On-chain Telemetry</h2>
+        <div className="header-actions">
+          <button
+            onClick={() => onSampleModal(true)}
+            className="glass-button"
+            disabled={!available}
+          >
+            Add Metric
+          </button>
+          <button
+            onClick={runPerformanceAnalysis}
+            className="glass-button"
+            disabled={selectedIds.length === 0}
+          >
+            Analyze Selected ({selectedIds.length})
+          </button>
+          <button
+            onClick={loadTelemetry}
+            className="refresh-btn glass-button"
+            disabled={isRefreshing}
+          >
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {!available ? (
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="dashboard-card glass-card">
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">{counts.metricCount}</div>
+                <div className="stat-label">System Metrics</div>
+              </div>
+              <Link to="/crashes" className="stat-item">
+                <div className="stat-value">{counts.crashCount}</div>
+                <div className="stat-label">Crash Reports</div>
+              </Link>
+              <div className="stat-item">
+                <div className="stat-value">{counts.analysisCount}</div>
+                <div className="stat-label">Analyses</div>
+              </div>
+            </div>
+          </div>
+
+          <div className="metrics-list glass-card">
+            <div className="table-header">
+              <div className="header-cell">ID</div>
+              <div className="header-cell">CPU</div>
+              <div className="header-cell">Memory</div>
+              <div className="header-cell">Disk</div>
+              <div className="header-cell">Network</div>
+              <div className="header-cell">Date</div>
+            </div>
+            {metrics.length === 0 ? (
+              <div className="no-metrics">
+                <p>No encrypted system metrics submitted yet</p>
+              </div>
+            ) : (
+              metrics.map(metric => (
+                <div className="metric-row" key={metric.id}>
+                  <div className="table-cell metric-id">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(metric.id)}
+                      onChange={() => toggleSelected(metric.id)}
+                    />{" "}
+                    #{metric.id}
+                  </div>
+                  <div className="table-cell">{shortHandle(metric.cpuHandle)}</div>
+                  <div className="table-cell">{shortHandle(metric.memoryHandle)}</div>
+                  <div className="table-cell">{shortHandle(metric.diskHandle)}</div>
+                  <div className="table-cell">{shortHandle(metric.networkHandle)}</div>
+                  <div className="table-cell">{new Date(metric.timestamp * 1000).toLocaleString()}</div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      {sampleModalOpen && (
+        <div className="modal-overlay">
+          <div className="create-modal glass-card">
+            <div className="modal-header">
+              <h2>Submit Encrypted Telemetry</h2>
+              <button onClick={() => onSampleModal(false)} className="close-modal">&times;</button>
+            </div>
+
+            <div className="modal-body">
+              <div className="fhe-notice-banner">
+                <div className="key-icon"></div> Each value is encrypted as euint32 before it leaves your browser
+              </div>
+              {!isDevice && (
+                <p>
+                  {!available
+                    ? "PrivateOSFHE is not deployed at the configured address."
+                    : account
+                      ? "Only enrolled device keys can add metrics. Ask an admin to enroll this wallet on the Devices page."
+                      : "Connect a wallet enrolled as a device to add metrics."}
+                </p>
+              )}
+
+              <div className="form-grid">
+                {([
+                  ["cpuUsage", "CPU Usage (%)"],
+                  ["memoryUsage", "Memory Usage (%)"],
+                  ["diskActivity", "Disk Activity (KB/s)"],
+                  ["networkTraffic", "Network Traffic (KB/s)"]
+                ] as [keyof SystemMetricSample, string][]).map(([name, label]) => (
+                  <div className="form-group" key={name}>
+                    <label>{label} *</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={sample[name]}
+                      onChange={(e) => setSample({ ...sample, [name]: e.target.value })}
+                      className="glass-input"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="modal-footer">
+              <button onClick={() => onSampleModal(false)} className="cancel-btn glass-button">
+                Cancel
+              </button>
+              <button
+                onClick={submitSample}
+                disabled={!isDevice || submitting || Object.values(sample).some(v => String(v).trim() === "")}
+                className="submit-btn glass-button primary"
+              >
+                {submitting ? "Encrypting with FHE..." : "Submit Securely"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryDashboard;
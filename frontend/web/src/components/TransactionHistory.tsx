@@ -0,0 +1,123 @@
+import React, { useState } from "react";
+import { activeNetwork, findNetwork } from "../networks";
+import {
+  cancelTransaction,
+  clearFinishedTransactions,
+  describeTransactionError,
+  speedUpTransaction,
+  TrackedTransaction,
+  useTransactions
+} from "../transactions";
+
+interface TransactionHistoryProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ account, onStatus }) => {
+  const transactions = useTransactions();
+  const [replacing, setReplacing] = useState<string | null>(null);
+
+  if (!account) return null;
+
+  const replace = async (tx: TrackedTransaction, action: "speed-up" | "cancel") => {
+    setReplacing(tx.hash);
+    try {
+      if (action === "speed-up") await speedUpTransaction(tx.hash);
+      else await cancelTransaction(tx.hash);
+    } catch (e: any) {
+      onStatus("error", `${action === "speed-up" ? "Speed up" : "Cancel"} failed: ${describeTransactionError(e)}`);
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  const hashCell = (tx: TrackedTransaction) => {
+    const explorer = findNetwork(tx.networkKey)?.blockExplorerUrl;
+    const short = `${tx.hash.substring(0, 10)}…${tx.hash.substring(62)}`;
+    return explorer
+      ? <a href={`${explorer}/tx/${tx.hash}`} target="_blank" rel="noopener noreferrer">{short}</a>
+      : short;
+  };
+
+  const statusCell = (tx: TrackedTransaction) => {
+    const required = findNetwork(tx.networkKey)?.confirmations ?? 1;
+    switch (tx.status) {
+      case "mined":
+        return `${tx.confirmations}/${required} confirmations`;
+      case "confirmed":
+        return `block ${tx.blockNumber}`;
+      case "reverted":
+        return tx.revertReason ?? "-";
+      case "replaced":
+        return tx.replacedBy ? `by ${tx.replacedBy.substring(0, 10)}…` : "by another wallet transaction";
+      default:
+        return `nonce ${tx.nonce}`;
+    }
+  };
+
+  return (
+    <div className="metrics-section">
+      <div className="section-header">
+        <h2>Transactions</h2>
+        <div className="header-actions">
+          <button className="refresh-btn glass-button" onClick={clearFinishedTransactions}>
+            Clear Finished
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Action</div>
+          <div className="header-cell">Transaction</div>
+          <div className="header-cell">Network</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Details</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {transactions.length === 0 ? (
+          <div className="no-metrics">
+            <p>No transactions sent from this account yet</p>
+          </div>
+        ) : transactions.map(tx => {
+          // Replacements are signed on the selected network, and only once per transaction
+          const replaceable = tx.status === "submitted" && !tx.replacedBy && tx.networkKey === activeNetwork().key;
+          return (
+            <div className="metric-row" key={tx.hash}>
+              <div className="table-cell">{tx.label}</div>
+              <div className="table-cell metric-id">{hashCell(tx)}</div>
+              <div className="table-cell">{findNetwork(tx.networkKey)?.name ?? tx.networkKey}</div>
+              <div className="table-cell">
+                <span className={`status-badge tx-${tx.status}`}>{tx.status}</span>
+              </div>
+              <div className="table-cell" title={tx.revertReason ?? ""}>{statusCell(tx)}</div>
+              <div className="table-cell actions">
+                {replaceable && (
+                  <>
+                    <button
+                      className="action-btn glass-button"
+                      onClick={() => replace(tx, "speed-up")}
+                      disabled={replacing === tx.hash}
+                    >
+                      Speed Up
+                    </button>
+                    <button
+                      className="action-btn glass-button"
+                      onClick={() => replace(tx, "cancel")}
+                      disabled={replacing === tx.hash}
+                    >
+                      Cancel
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionHistory;
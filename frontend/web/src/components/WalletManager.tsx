@@ -5,9 +5,11 @@ interface WalletManagerProps {
   account: string;
   onConnect: () => void;
   onDisconnect: () => void;
+  // Set while a remembered session is being restored
+  connecting?: boolean;
 }
 
-export default function WalletManager({ account, onConnect, onDisconnect }: WalletManagerProps) {
+export default function WalletManager({ account, onConnect, onDisconnect, connecting = false }: WalletManagerProps) {
   const [isConnecting, setIsConnecting] = useState(false);
   const [theme, setTheme] = useState<Record<string, string>>({});
   const containerRef = useRef<HTMLDivElement>(null);
@@ -96,11 +98,11 @@ export default function WalletManager({ account, onConnect, onDisconnect }: Wall
       <div ref={containerRef} style={theme as React.CSSProperties}>
         <button
           onClick={handleConnect}
-          disabled={isConnecting}
+          disabled={isConnecting || connecting}
           className="wallet-connect-button"
         >
           <Wallet size={16} />
-          <span>{isConnecting ? 'Connecting...' : 'Connect Wallet'}</span>
+          <span>{isConnecting || connecting ? 'Connecting...' : 'Connect Wallet'}</span>
         </button>
       </div>
     );
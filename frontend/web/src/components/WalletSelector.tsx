@@ -1,21 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-
-interface WalletInfo {
-  name: string;
-  provider: any;
-  icon: string;
-  isInstalled: boolean;
-}
+import { activeNetwork, switchWalletNetwork } from '../networks';
+import { DiscoveredWallet, GENERIC_WALLET_ICON, requestWallets, useDiscoveredWallets } from '../walletDiscovery';
 
 interface WalletSelectorProps {
   isOpen: boolean;
-  onWalletSelect: (wallet: WalletInfo) => void;
+  onWalletSelect: (wallet: DiscoveredWallet) => void;
   onClose: () => void;
 }
 
 const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect, onClose }) => {
-  const [availableWallets, setAvailableWallets] = useState<WalletInfo[]>([]);
-  const [showOtherWallets, setShowOtherWallets] = useState(false);
+  const wallets = useDiscoveredWallets();
   const [theme, setTheme] = useState<Record<string, string>>({});
   const modalRef = useRef<HTMLDivElement>(null);
 
@@ -253,110 +247,19 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
   ];
 
   useEffect(() => {
-    detectWallets();
-    
     if (!isOpen) return;
+    // Wallets installed or unlocked since the last open announce themselves again
+    requestWallets();
     
     const hour = new Date().getHours();
     const themeIndex = hour % themeStyles.length;
     setTheme(themeStyles[themeIndex]);
   }, [isOpen]);
 
-  const detectWallets = () => {
-    const wallets: WalletInfo[] = [];
-
-    const walletIcons: Record<string, string> = {
-      'MetaMask': 'https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png',
-      'OKX Wallet': 'https://www.okx.com/favicon.ico',
-      'Binance Wallet': 'https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png',
-      'Other Wallets': 'https://cdn-icons-png.flaticon.com/512/126/126472.png'
-    };
-
-    // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
-      wallets.push({
-        name: 'MetaMask',
-        provider: (window as any).ethereum,
-        icon: walletIcons['MetaMask'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'MetaMask',
-        provider: null,
-        icon: walletIcons['MetaMask'],
-        isInstalled: false
-      });
-    }
-
-    // OKX Wallet
-    if (typeof (window as any).okxwallet !== 'undefined') {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: (window as any).okxwallet,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: null,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: false
-      });
-    }
-
-    // Binance Wallet
-    if (typeof (window as any).BinanceChain !== 'undefined') {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: (window as any).BinanceChain,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: null,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: false
-      });
-    }
-
-    wallets.push({
-      name: 'Other Wallets',
-      provider: null,
-      icon: walletIcons['Other Wallets'],
-      isInstalled: true
-    });
-
-    setAvailableWallets(wallets);
-  };
-
-  const handleWalletSelect = async (wallet: WalletInfo) => {
-    if (wallet.name === 'Other Wallets') {
-      setShowOtherWallets(true);
-      return;
-    }
-
-    if (!wallet.isInstalled) {
-      // Open wallet download page
-      const walletUrls: { [key: string]: string } = {
-        'MetaMask': 'https://metamask.io/',
-        'OKX Wallet': 'https://www.okx.com/web3',
-        'Binance Wallet': 'https://www.bnbchain.org/en/binance-wallet',
-      };
-      
-      const url = walletUrls[wallet.name];
-      if (url) {
-        window.open(url, '_blank');
-      }
-      return;
-    }
-
+  const handleWalletSelect = async (wallet: DiscoveredWallet) => {
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the network selected in the app
+      await switchWalletNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,40 +268,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -433,125 +302,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
         position: 'relative',
         backdropFilter: 'var(--modal-backdrop-filter)'
       }}>
-        {showOtherWallets && (
-          <div style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            background: 'var(--other-wallet-bg)',
-            color: 'var(--text-color)',
-            zIndex: 10,
-            display: 'flex',
-            flexDirection: 'column',
-            padding: '20px',
-            borderRadius: 'var(--modal-border-radius)',
-            backdropFilter: 'var(--modal-backdrop-filter)'
-          }}>
-            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
-              <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600' }}>Other Wallets</h3>
-              <button
-                onClick={() => setShowOtherWallets(false)}
-                style={{
-                  background: 'var(--close-btn-bg)',
-                  border: 'none',
-                  color: 'var(--text-color)',
-                  width: '30px',
-                  height: '30px',
-                  borderRadius: '50%',
-                  cursor: 'pointer',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  fontSize: '16px',
-                  transition: 'all 0.2s ease'
-                }}
-                onMouseOver={(e) => {
-                  e.currentTarget.style.background = 'var(--close-btn-hover)';
-                }}
-                onMouseOut={(e) => {
-                  e.currentTarget.style.background = 'var(--close-btn-bg)';
-                }}
-              >
-                ✕
-              </button>
-            </div>
-            
-            <div style={{ flex: 1, overflowY: 'auto' }}>
-              <div style={{ 
-                background: 'var(--info-box-bg)', 
-                padding: '15px', 
-                borderRadius: '12px',
-                marginBottom: '15px',
-                border: '1px solid var(--border-color)'
-              }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Popular Wallets</div>
-                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
-                  {['Coinbase Wallet', 'Trust Wallet', 'WalletConnect', 'Ledger', 'Trezor'].map(name => (
-                    <div key={name} style={{
-                      background: 'var(--other-wallet-item-bg)',
-                      padding: '8px 12px',
-                      borderRadius: '20px',
-                      fontSize: '14px'
-                    }}>
-                      {name}
-                    </div>
-                  ))}
-                </div>
-              </div>
-              
-              <div style={{ 
-                background: 'var(--info-box-bg)', 
-                padding: '15px', 
-                borderRadius: '12px',
-                border: '1px solid var(--border-color)'
-              }}>
-                <div style={{ fontWeight: '500', marginBottom: '10px' }}>Mobile Wallets</div>
-                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px' }}>
-                  {['TokenPocket', 'MathWallet', 'SafePal', 'BitKeep', 'ImToken'].map(name => (
-                    <div key={name} style={{
-                      background: 'var(--other-wallet-item-bg)',
-                      padding: '8px 12px',
-                      borderRadius: '20px',
-                      fontSize: '14px'
-                    }}>
-                      {name}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
-            
-            <div style={{ marginTop: '15px', textAlign: 'center' }}>
-              <button
-                onClick={() => setShowOtherWallets(false)}
-                style={{
-                  background: 'var(--back-btn-bg)',
-                  color: 'white',
-                  border: 'none',
-                  padding: '10px 20px',
-                  borderRadius: '30px',
-                  fontWeight: '600',
-                  cursor: 'pointer',
-                  width: '100%',
-                  transition: 'all 0.2s ease'
-                }}
-                onMouseOver={(e) => {
-                  e.currentTarget.style.transform = 'translateY(-2px)';
-                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0, 0, 0, 0.2)';
-                }}
-                onMouseOut={(e) => {
-                  e.currentTarget.style.transform = 'translateY(0)';
-                  e.currentTarget.style.boxShadow = 'none';
-                }}
-              >
-                Back to Main
-              </button>
-            </div>
-          </div>
-        )}
-        
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px', position: 'relative', zIndex: 1 }}>
           <h2 style={{ 
             margin: 0, 
@@ -600,42 +350,56 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           position: 'relative',
           zIndex: 1
         }}>
-          {availableWallets.map((wallet, index) => (
+          {wallets.length === 0 && (
+            <div style={{
+              borderRadius: '12px',
+              border: '1px solid var(--border-color)',
+              background: 'var(--wallet-item-disabled)',
+              padding: '16px',
+              fontSize: '14px',
+              color: 'var(--text-disabled)',
+              textAlign: 'center'
+            }}>
+              No browser wallet detected.{' '}
+              <a
+                href="https://ethereum.org/en/wallets/find-wallet/"
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ color: 'var(--text-color)' }}
+              >
+                Find a wallet
+              </a>
+            </div>
+          )}
+          {wallets.map(wallet => (
             <div
-              key={index}
+              key={wallet.uuid}
               onClick={() => handleWalletSelect(wallet)}
               style={{
                 borderRadius: '12px',
                 border: '1px solid var(--border-color)',
-                background: wallet.isInstalled 
-                  ? 'var(--wallet-item-bg)' 
-                  : 'var(--wallet-item-disabled)',
+                background: 'var(--wallet-item-bg)',
                 padding: '16px',
                 display: 'flex',
                 alignItems: 'center',
                 gap: '16px',
-                cursor: wallet.isInstalled ? 'pointer' : 'default',
+                cursor: 'pointer',
                 transition: 'all 0.2s ease',
                 position: 'relative',
-                overflow: 'hidden',
-                opacity: wallet.isInstalled ? 1 : 0.7
+                overflow: 'hidden'
               }}
               onMouseOver={(e) => {
-                if (wallet.isInstalled) {
-                  e.currentTarget.style.background = 'var(--wallet-item-hover)';
-                  e.currentTarget.style.transform = 'translateY(-2px)';
-                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0, 0, 0, 0.1)';
-                }
+                e.currentTarget.style.background = 'var(--wallet-item-hover)';
+                e.currentTarget.style.transform = 'translateY(-2px)';
+                e.currentTarget.style.boxShadow = '0 4px 8px rgba(0, 0, 0, 0.1)';
               }}
               onMouseOut={(e) => {
-                if (wallet.isInstalled) {
-                  e.currentTarget.style.background = 'var(--wallet-item-bg)';
-                  e.currentTarget.style.transform = 'translateY(0)';
-                  e.currentTarget.style.boxShadow = 'none';
-                }
+                e.currentTarget.style.background = 'var(--wallet-item-bg)';
+                e.currentTarget.style.transform = 'translateY(0)';
+                e.currentTarget.style.boxShadow = 'none';
               }}
             >
-              {/* Wallet icon */}
+              {/* Wallet icon, as announced by the wallet */}
               <div style={{
                 width: '48px',
                 height: '48px',
@@ -653,13 +417,12 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   style={{
                     width: '100%',
                     height: '100%',
-                    objectFit: 'contain',
-                    filter: wallet.isInstalled ? 'none' : 'grayscale(100%)'
+                    objectFit: 'contain'
                   }}
                   onError={(e) => {
-                    // Fallback if image fails to load
+                    // Fallback if the announced icon is unusable
                     const target = e.target as HTMLImageElement;
-                    target.src = 'https://via.placeholder.com/48';
+                    target.src = GENERIC_WALLET_ICON;
                   }}
                 />
               </div>
@@ -670,16 +433,16 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   fontWeight: '500', 
                   fontSize: '16px',
                   marginBottom: '4px',
-                  color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
+                  color: 'var(--text-color)'
                 }}>
                   {wallet.name}
                 </div>
                 <div style={{
                   fontSize: '14px',
                   opacity: 0.7,
-                  color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
+                  color: 'var(--text-color)'
                 }}>
-                  {wallet.isInstalled ? 'Ready to connect' : 'Click to install'}
+                  {wallet.legacy ? 'Injected wallet' : 'Ready to connect'}
                 </div>
               </div>
               
@@ -688,7 +451,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                 width: '12px',
                 height: '12px',
                 borderRadius: '50%',
-                background: wallet.isInstalled ? 'var(--status-installed)' : 'var(--status-not-installed)',
+                background: 'var(--status-installed)',
                 flexShrink: 0
               }}></div>
             </div>
@@ -708,7 +471,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {activeNetwork().name}
           </div>
         </div>
       </div>
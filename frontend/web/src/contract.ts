@@ -1,10 +1,11 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { contractAddress, requireContractAddress } from "./networks";
+import { getReadProvider } from "./rpc";
+import { getSigner } from "./wallet";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +19,16 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
 export async function getContractReadOnly() {
+  const address = contractAddress("contractAddress");
+  if (!address) {
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = await getReadProvider();
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -67,13 +41,10 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
+  const address = requireContractAddress("contractAddress");
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    const contract = new ethers.Contract(address, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
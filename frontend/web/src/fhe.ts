@@ -0,0 +1,175 @@
+// fhe.ts
+import { ethers } from "ethers";
+// The bundle entry re-exports window.relayerSDK, loaded by the script tag in index.html
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { activeNetwork, NetworkInfo } from "./networks";
+import { getRpcManager } from "./rpc";
+
+export const UINT32_MAX = 4294967295;
+
+// Fixed by @fhevm/hardhat-plugin for its embedded mock engine
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// How long a user-decryption signature stays valid, and so how long we reuse it
+const DECRYPT_DURATION_DAYS = 1;
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+interface DecryptAuthorization {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+let instanceNetwork: string | null = null;
+const authorizations = new Map<string, DecryptAuthorization>();
+
+// A `npx hardhat node` started with the fhevm plugin answers fhevm_relayer_metadata and acts as
+// the relayer itself, so the mock instance needs no relayer URL, gateway or key downloads
+async function createMockInstance(provider: ethers.JsonRpcApiProvider): Promise<FhevmInstance> {
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+async function createFheInstance(network: NetworkInfo): Promise<FhevmInstance> {
+  const rpc = getRpcManager(network);
+  await rpc.ready();
+  if (network.fhevm === "mock") {
+    return createMockInstance(rpc.provider);
+  }
+  await initSDK();
+  const base = network.fhevm === "sepolia" ? SepoliaConfig : network.fhevm;
+  // Host-chain reads go through the same failover as everything else, not through the wallet
+  return createInstance({
+    ...base,
+    network: { request: ({ method, params }) => rpc.provider.send(method, params ?? []) }
+  });
+}
+
+// One instance per selected network; switching networks also drops cached decrypt signatures
+export async function getFheInstance(): Promise<FhevmInstance> {
+  const network = activeNetwork();
+  if (!instancePromise || network.key !== instanceNetwork) {
+    instanceNetwork = network.key;
+    authorizations.clear();
+    instancePromise = createFheInstance(network).catch((error) => {
+      // Allow a later call to retry, e.g. once the node or relayer is reachable
+      if (instanceNetwork === network.key) instancePromise = null;
+      throw error;
+    });
+  }
+  return instancePromise;
+}
+
+export function parseUint32(value: string | number): number {
+  // Number("") is 0, so a blank field would otherwise encrypt as a zero reading
+  if (typeof value === "string" && value.trim() === "") {
+    throw new Error("Value is required");
+  }
+  const parsed = typeof value === "number" ? value : Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > UINT32_MAX) {
+    throw new Error(`Value must be an integer between 0 and ${UINT32_MAX}`);
+  }
+  return parsed;
+}
+
+// Encrypts the values as euint32 inputs bound to (contractAddress, userAddress).
+// The plaintext never leaves the browser; only the handles and the input proof do.
+export async function encryptUint32(
+  contractAddress: string,
+  userAddress: string,
+  values: (string | number)[]
+): Promise<EncryptedInputs> {
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) {
+    input.add32(parseUint32(value));
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map((handle) => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Signs the EIP-712 user-decryption request once per (user, contract) and reuses it until it expires
+async function authorizeDecryption(
+  instance: FhevmInstance,
+  signer: ethers.Signer,
+  userAddress: string,
+  contractAddress: string
+): Promise<DecryptAuthorization> {
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = authorizations.get(key);
+  if (cached && cached.startTimestamp + DECRYPT_DURATION_DAYS * 86400 > now + 60) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const authorization = { publicKey, privateKey, signature, startTimestamp: now };
+  authorizations.set(key, authorization);
+  return authorization;
+}
+
+// Decrypts euint32 handles the signer has been granted on `contractAddress`. Uninitialized
+// (zero) handles decrypt to 0 without a relayer round-trip.
+export async function userDecryptUint32(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<Record<string, number>> {
+  const values: Record<string, number> = {};
+  const pending = handles.filter((handle) => {
+    if (ethers.toBigInt(handle) === 0n) {
+      values[handle] = 0;
+      return false;
+    }
+    return true;
+  });
+  if (pending.length === 0) return values;
+
+  const instance = await getFheInstance();
+  const userAddress = await signer.getAddress();
+  const auth = await authorizeDecryption(instance, signer, userAddress, contractAddress);
+  const results = await instance.userDecrypt(
+    pending.map((handle) => ({ handle, contractAddress })),
+    auth.privateKey,
+    auth.publicKey,
+    auth.signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    auth.startTimestamp,
+    DECRYPT_DURATION_DAYS
+  );
+
+  for (const handle of pending) {
+    values[handle] = Number(results[handle]);
+  }
+  return values;
+}
@@ -0,0 +1,189 @@
+// legacyMetrics.ts
+import { ethers } from "ethers";
+import { METRIC_PREFIX, rebuildMetricIndex, scanMetricWrites } from "./adapterStore";
+import { decodeMetricRecord, RecordIssue } from "./recordCodec";
+
+export interface SystemMetric {
+  id: string;
+  metricType: string;
+  encryptedData: string;
+  inputProof?: string;
+  timestamp: number;
+  owner: string;
+  status: "active" | "inactive";
+  // Set when the stored record predates the current schema version
+  migratedFrom: number | null;
+}
+
+// Everything read from the adapter as of `blockNumber`. `keys` is newest first and the
+// first `cursor` of them are loaded into `metrics`, or into `issues` if they failed to decode.
+export interface MetricSnapshot {
+  contract: string;
+  blockNumber: number;
+  keys: string[];
+  cursor: number;
+  metrics: SystemMetric[];
+  issues: RecordIssue[];
+}
+
+interface ReadResult {
+  metrics: SystemMetric[];
+  issues: RecordIssue[];
+}
+
+export const PAGE_SIZE = 50;
+
+// Reads fired together are sent as one JSON-RPC batch by ethers' JsonRpcProvider
+const READ_BATCH_SIZE = 25;
+
+const DB_NAME = "privateosfhe";
+const DB_VERSION = 3;
+const STORE = "metricSnapshots";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Older snapshots may miss orphaned metrics or lack `issues`, so start over
+      if (request.result.objectStoreNames.contains(STORE)) {
+        request.result.deleteObjectStore(STORE);
+      }
+      request.result.createObjectStore(STORE, { keyPath: "contract" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadCachedSnapshot(contractAddress: string): Promise<MetricSnapshot | null> {
+  try {
+    return (await withStore("readonly", store => store.get(contractAddress.toLowerCase()))) ?? null;
+  } catch (e) {
+    console.warn("Metric cache unavailable:", e);
+    return null;
+  }
+}
+
+async function saveSnapshot(snapshot: MetricSnapshot) {
+  try {
+    await withStore("readwrite", store => store.put(snapshot));
+  } catch (e) {
+    console.warn("Failed to write metric cache:", e);
+  }
+}
+
+
+async function readMetrics(contract: ethers.Contract, ids: string[], blockTag: ethers.BlockTag): Promise<ReadResult> {
+  const metrics: SystemMetric[] = [];
+  const issues: RecordIssue[] = [];
+  for (let i = 0; i < ids.length; i += READ_BATCH_SIZE) {
+    const batch = ids.slice(i, i + READ_BATCH_SIZE);
+    const results = await Promise.all(batch.map(id =>
+      contract.getData(`${METRIC_PREFIX}${id}`, { blockTag }).catch((e: any) => {
+        console.error(`Error loading metric ${id}:`, e);
+        return "0x";
+      })
+    ));
+    results.forEach((bytes, j) => {
+      // Empty means cleared or unreadable, not a bad record
+      if (ethers.dataLength(bytes) === 0) return;
+
+      const result = decodeMetricRecord(batch[j], bytes);
+      if (!result.ok) {
+        issues.push(result.issue);
+        return;
+      }
+      const { record, migratedFrom } = result;
+      metrics.push({
+        id: batch[j],
+        metricType: record.metricType,
+        encryptedData: record.data,
+        inputProof: record.inputProof,
+        timestamp: record.timestamp,
+        owner: record.owner,
+        status: record.status,
+        migratedFrom
+      });
+    });
+  }
+  return { metrics, issues };
+}
+
+function sortByTimestamp(metrics: SystemMetric[]) {
+  return [...metrics].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Brings the cached snapshot up to the latest block. Only records written since the cached
+ * block are re-read; without a cache the index is rebuilt from events and the newest page loaded.
+ */
+export async function syncMetrics(contract: ethers.Contract): Promise<MetricSnapshot> {
+  const address = (await contract.getAddress()).toLowerCase();
+  const blockNumber = await contract.runner!.provider!.getBlockNumber();
+  const cached = await loadCachedSnapshot(address);
+  if (cached && cached.blockNumber === blockNumber) return cached;
+
+  let snapshot: MetricSnapshot;
+  if (!cached) {
+    const index = await rebuildMetricIndex(contract, blockNumber);
+    if (index.orphans.length > 0) {
+      console.info(`Recovered ${index.orphans.length} metrics missing from the legacy metric_keys index`);
+    }
+    const keys = index.ids.reverse();
+    const ids = keys.slice(0, PAGE_SIZE);
+    const { metrics, issues } = await readMetrics(contract, ids, blockNumber);
+    snapshot = { contract: address, blockNumber, keys, cursor: ids.length, metrics: sortByTimestamp(metrics), issues };
+  } else {
+    const changed = await scanMetricWrites(contract, cached.blockNumber + 1, blockNumber);
+    const known = new Set(cached.keys);
+    // First writes are new metrics; they are the newest, so they go on top of the loaded window
+    const added = changed.filter(id => !known.has(id)).reverse();
+    const keys = [...added, ...cached.keys];
+    const cursor = cached.cursor + added.length;
+
+    const changedSet = new Set(changed);
+    const stale = keys.slice(0, cursor).filter(id => changedSet.has(id));
+    const fresh = await readMetrics(contract, stale, blockNumber);
+    snapshot = {
+      contract: address,
+      blockNumber,
+      keys,
+      cursor,
+      metrics: sortByTimestamp([...cached.metrics.filter(m => !changedSet.has(m.id)), ...fresh.metrics]),
+      issues: [...cached.issues.filter(issue => !changedSet.has(issue.id)), ...fresh.issues]
+    };
+  }
+
+  await saveSnapshot(snapshot);
+  return snapshot;
+}
+
+export async function loadNextPage(contract: ethers.Contract, snapshot: MetricSnapshot): Promise<MetricSnapshot> {
+  const ids = snapshot.keys.slice(snapshot.cursor, snapshot.cursor + PAGE_SIZE);
+  if (ids.length === 0) return snapshot;
+
+  // Read at latest, since the snapshot block may already be pruned; the next sync replays
+  // DataStored from the snapshot block and so still catches any of these that changed
+  const { metrics, issues } = await readMetrics(contract, ids, "latest");
+  const next = {
+    ...snapshot,
+    cursor: snapshot.cursor + ids.length,
+    metrics: sortByTimestamp([...snapshot.metrics, ...metrics]),
+    issues: [...snapshot.issues, ...issues]
+  };
+  await saveSnapshot(next);
+  return next;
+}
@@ -0,0 +1,157 @@
+// networks.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import type { FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/bundle";
+import registryJson from "../../../networks.json";
+import configJson from "./config.json";
+
+// The registry at the repo root is shared with hardhat.config.ts, so a network is deployed to
+// and selected here under the same key, and config.json keeps the addresses per key.
+
+// "mock" is the relayer built into `npx hardhat node`, "sepolia" the SDK's SepoliaConfig.
+// Other fhEVM chains spell out their relayer and host contract addresses.
+export type FhevmSetup = "mock" | "sepolia" | Omit<FhevmInstanceConfig, "network">;
+
+export interface NetworkInfo {
+  key: string;
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl: string | null;
+  fhevm: FhevmSetup;
+  // Blocks on top of the receipt before a transaction counts as final
+  confirmations: number;
+}
+
+export interface NetworkDeployment {
+  // Legacy UniversalAdapter
+  contractAddress?: string;
+  privateOSFHEAddress?: string;
+  deployer?: string;
+}
+
+// The part of deploy/deploy.ts's bundle the app reads; deploys copy it to ./deployments/<key>.json
+interface DeploymentBundle {
+  contracts: Record<string, { address: string; blockNumber: number }>;
+}
+
+const STORAGE_KEY = "privateosfhe.network";
+
+export const NETWORKS: NetworkInfo[] = Object.entries(registryJson.networks)
+  .map(([key, network]) => ({ key, ...network }) as NetworkInfo);
+
+const deployments: Record<string, NetworkDeployment> = configJson.networks;
+const bundles = import.meta.glob<DeploymentBundle>("./deployments/*.json", { eager: true, import: "default" });
+
+export function findNetwork(key: string): NetworkInfo | undefined {
+  return NETWORKS.find(n => n.key === key);
+}
+
+export function findNetworkByChainId(chainId: number): NetworkInfo | undefined {
+  return NETWORKS.find(n => n.chainId === chainId);
+}
+
+// A choice made in the switcher wins over VITE_NETWORK, which wins over the registry default
+function initialNetwork(): NetworkInfo {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled
+  }
+  const key = stored ?? import.meta.env.VITE_NETWORK ?? registryJson.defaultNetwork;
+  return findNetwork(key) ?? findNetwork(registryJson.defaultNetwork)!;
+}
+
+let active = initialNetwork();
+const listeners = new Set<() => void>();
+
+export function activeNetwork(): NetworkInfo {
+  return active;
+}
+
+export function selectNetwork(key: string): NetworkInfo {
+  const network = findNetwork(key);
+  if (!network) {
+    throw new Error(`Unknown network "${key}"`);
+  }
+  if (network !== active) {
+    active = network;
+    try {
+      localStorage.setItem(STORAGE_KEY, key);
+    } catch {
+      // Storage disabled; the choice lasts for this page load
+    }
+    listeners.forEach(listener => listener());
+  }
+  return network;
+}
+
+export function subscribeNetwork(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useActiveNetwork(): NetworkInfo {
+  return useSyncExternalStore(subscribeNetwork, activeNetwork);
+}
+
+export function deploymentFor(network: NetworkInfo = active): NetworkDeployment {
+  return deployments[network.key] ?? {};
+}
+
+/** Address of `name` on the network, or null if it was never deployed there. */
+export function contractAddress(name: "contractAddress" | "privateOSFHEAddress", network: NetworkInfo = active): string | null {
+  const address = deploymentFor(network)[name];
+  return address && address !== ethers.ZeroAddress ? address : null;
+}
+
+export function requireContractAddress(name: "contractAddress" | "privateOSFHEAddress", network: NetworkInfo = active): string {
+  const address = contractAddress(name, network);
+  if (!address) {
+    const label = name === "contractAddress" ? "UniversalAdapter" : "PrivateOSFHE";
+    throw new Error(`${label} is not deployed on ${network.name}`);
+  }
+  return address;
+}
+
+/**
+ * Block PrivateOSFHE was deployed in, where log scans start. 0 when the network has no bundle
+ * or the bundle is for another deployment than the configured address.
+ */
+export function deploymentBlock(network: NetworkInfo = active): number {
+  const deployed = bundles[`./deployments/${network.key}.json`]?.contracts.PrivateOSFHE;
+  const address = contractAddress("privateOSFHEAddress", network);
+  return deployed && address && deployed.address.toLowerCase() === address.toLowerCase() ? deployed.blockNumber : 0;
+}
+
+/** Asks the wallet to switch to the network, adding it first if the wallet doesn't know it. */
+export async function switchWalletNetwork(ethereum: any, network: NetworkInfo = active): Promise<void> {
+  const chainId = ethers.toQuantity(network.chainId);
+  try {
+    await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) throw switchError;
+    await ethereum.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.blockExplorerUrl ? [network.blockExplorerUrl] : undefined
+      }]
+    });
+  }
+}
+
+// Transactions must land on the selected network, not whatever the wallet happens to be on
+export async function ensureWalletNetwork(ethereum: any, network: NetworkInfo = active): Promise<void> {
+  const chainId = Number(await ethereum.request({ method: "eth_chainId" }));
+  if (chainId !== network.chainId) {
+    await switchWalletNetwork(ethereum, network);
+  }
+}
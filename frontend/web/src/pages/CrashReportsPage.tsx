@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import {
+  analyzeCrash,
+  CrashReportRecord,
+  fetchCounts,
+  fetchCrashAnalysisStatus,
+  fetchCrashReport,
+  getPrivateOSReadOnly,
+  latestIds,
+  shortHandle
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+const PAGE_SIZE = 20;
+const POLL_INTERVAL = 5000;
+
+// requesting: analyzeCrash tx sent; awaiting-oracle: mined, waiting for the processCrash callback
+type AnalysisStage = "requesting" | "awaiting-oracle" | "analyzed" | "failed";
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  "requesting": "requesting",
+  "awaiting-oracle": "awaiting oracle",
+  "analyzed": "analyzed",
+  "failed": "failed"
+};
+
+interface CrashReportsPageProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const CrashReportsPage: React.FC<CrashReportsPageProps> = ({ account, onStatus }) => {
+  const [available, setAvailable] = useState(true);
+  const [crashCount, setCrashCount] = useState(0);
+  const [crashes, setCrashes] = useState<CrashReportRecord[]>([]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [stages, setStages] = useState<Record<number, AnalysisStage>>({});
+  const [filterType, setFilterType] = useState("all");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const analyzedCount = crashes.filter(c => c.isAnalyzed).length;
+  const awaiting = Object.keys(stages).map(Number).filter(id => stages[id] === "awaiting-oracle");
+
+  const filteredCrashes = crashes.filter(crash =>
+    filterType === "all" || (filterType === "analyzed") === crash.isAnalyzed
+  );
+
+  useEffect(() => {
+    loadCrashes();
+  }, [limit]);
+
+  // Poll only while some analysis is waiting for its oracle callback
+  useEffect(() => {
+    if (awaiting.length === 0) return;
+
+    const timer = setInterval(async () => {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) return;
+
+      for (const id of awaiting) {
+        try {
+          if (await fetchCrashAnalysisStatus(contract, id)) {
+            setStages(s => ({ ...s, [id]: "analyzed" }));
+            setCrashes(list => list.map(c => c.id === id ? { ...c, isAnalyzed: true } : c));
+            onStatus("success", `Crash #${id} analyzed`);
+          }
+        } catch (e) {
+          console.error(`Error polling crash #${id}:`, e);
+        }
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [awaiting.join(",")]);
+
+  const loadCrashes = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+
+      const { crashCount } = await fetchCounts(contract);
+      setCrashCount(crashCount);
+      setCrashes(await Promise.all(
+        latestIds(crashCount, limit).map(id => fetchCrashReport(contract, id))
+      ));
+    } catch (e) {
+      console.error("Error loading crash reports:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const requestAnalysis = async (crashId: number) => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setStages(s => ({ ...s, [crashId]: "requesting" }));
+    try {
+      const tx = await analyzeCrash(crashId);
+      await trackTransaction(tx, `Analyze crash #${crashId}`);
+      setStages(s => ({ ...s, [crashId]: "awaiting-oracle" }));
+      onStatus("success", "Analysis requested, waiting for the decryption oracle");
+    } catch (e: any) {
+      setStages(s => ({ ...s, [crashId]: "failed" }));
+      onStatus("error", "Crash analysis failed: " + describeTransactionError(e));
+    }
+  };
+
+  const statusOf = (crash: CrashReportRecord): string => {
+    if (crash.isAnalyzed) return "analyzed";
+    const stage = stages[crash.id];
+    return stage ? STAGE_LABELS[stage] : "pending";
+  };
+
+  if (!available) {
+    return (
+      <div className="metrics-section">
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="metrics-section">
+      <div className="dashboard-card glass-card">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">{crashCount}</div>
+            <div className="stat-label">Crash Reports</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{analyzedCount}</div>
+            <div className="stat-label">Analyzed</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{crashes.length - analyzedCount}</div>
+            <div className="stat-label">Pending</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="section-header">
+        <h2>Encrypted Crash Reports</h2>
+        <div className="header-actions">
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value)}
+            className="glass-select"
+          >
+            <option value="all">All Status</option>
+            <option value="pending">Pending</option>
+            <option value="analyzed">Analyzed</option>
+          </select>
+          <button
+            onClick={loadCrashes}
+            className="refresh-btn glass-button"
+            disabled={isRefreshing}
+          >
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Crash</div>
+          <div className="header-cell">Error Code</div>
+          <div className="header-cell">Dump Hash</div>
+          <div className="header-cell">Process ID</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {filteredCrashes.length === 0 ? (
+          <div className="no-metrics">
+            <p>No encrypted crash reports</p>
+          </div>
+        ) : (
+          filteredCrashes.map(crash => (
+            <div className="metric-row" key={crash.id}>
+              <div className="table-cell metric-id" title={`Fleet #${crash.fleetId}`}>#{crash.id} from device #{crash.deviceId}</div>
+              <div className="table-cell">{shortHandle(crash.errorCodeHandle)}</div>
+              <div className="table-cell">{shortHandle(crash.memoryDumpHashHandle)}</div>
+              <div className="table-cell">{shortHandle(crash.processIdHandle)}</div>
+              <div className="table-cell">
+                <span className={`status-badge ${crash.isAnalyzed ? "active" : "inactive"}`}>
+                  {statusOf(crash)}
+                </span>
+              </div>
+              <div className="table-cell actions">
+                {!crash.isAnalyzed && stages[crash.id] !== "requesting" && stages[crash.id] !== "awaiting-oracle" && (
+                  <button
+                    className="action-btn glass-button"
+                    onClick={() => requestAnalysis(crash.id)}
+                  >
+                    {stages[crash.id] === "failed" ? "Retry" : "Analyze"}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {crashes.length < crashCount && (
+        <button className="glass-button" onClick={() => setLimit(limit + PAGE_SIZE)}>
+          Load More
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CrashReportsPage;
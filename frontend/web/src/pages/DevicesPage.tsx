@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  createFleet,
+  DeviceRecord,
+  deviceIdFromReceipt,
+  enrollDevice,
+  fetchAccountRoles,
+  fetchDeviceOwnership,
+  fetchDevices,
+  fetchFleets,
+  FleetRecord,
+  getPrivateOSReadOnly,
+  moveDevice,
+  ownerCommitment,
+  PrivateOSRole,
+  retireDevice
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+interface Enrollment {
+  key: string;
+  fleetId: string;
+  // Optional; only its commitment is stored on chain
+  owner: string;
+}
+
+// The salt that opens an owner commitment; the contract never sees it, so it is shown once
+interface IssuedSalt {
+  deviceId: number;
+  owner: string;
+  salt: string;
+}
+
+interface DevicesPageProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const DevicesPage: React.FC<DevicesPageProps> = ({ account, onStatus }) => {
+  const [available, setAvailable] = useState(true);
+  const [fleets, setFleets] = useState<FleetRecord[]>([]);
+  const [devices, setDevices] = useState<DeviceRecord[]>([]);
+  const [ownRoles, setOwnRoles] = useState<PrivateOSRole[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [fleetName, setFleetName] = useState("");
+  const [enrollment, setEnrollment] = useState<Enrollment>({ key: "", fleetId: "", owner: "" });
+  const [issuedSalt, setIssuedSalt] = useState<IssuedSalt | null>(null);
+  const [fleetFilter, setFleetFilter] = useState("");
+  const [proof, setProof] = useState({ deviceId: "", owner: "", salt: "" });
+  const [proofResult, setProofResult] = useState<boolean | null>(null);
+
+  const isAdmin = ownRoles.includes("admin");
+  const fleetLabel = (id: number) => fleets.find(f => f.id === id)?.name ?? `#${id}`;
+  const shown = devices.filter(d => !fleetFilter || d.fleetId === Number(fleetFilter));
+
+  useEffect(() => {
+    loadRegistry();
+  }, [account]);
+
+  const loadRegistry = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+      const [fleetList, deviceList] = await Promise.all([fetchFleets(contract), fetchDevices(contract)]);
+      setFleets(fleetList);
+      setDevices(deviceList);
+      setOwnRoles(account ? await fetchAccountRoles(contract, account) : []);
+      if (!enrollment.fleetId && fleetList.length > 0) {
+        setEnrollment(e => ({ ...e, fleetId: String(fleetList[0].id) }));
+      }
+    } catch (e) {
+      console.error("Error loading the device registry:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const addFleet = async () => {
+    setSubmitting(true);
+    try {
+      const tx = await createFleet(fleetName.trim());
+      await trackTransaction(tx, `Create fleet "${fleetName.trim()}"`);
+      setFleetName("");
+      await loadRegistry();
+    } catch (e: any) {
+      onStatus("error", "Creating the fleet failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const enroll = async () => {
+    const key = enrollment.key.trim();
+    const owner = enrollment.owner.trim();
+    if (!ethers.isAddress(key) || (owner && !ethers.isAddress(owner))) {
+      alert("Enter a valid device key and, optionally, a valid owner address");
+      return;
+    }
+
+    setSubmitting(true);
+    setIssuedSalt(null);
+    try {
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const commitment = owner ? ownerCommitment(ethers.getAddress(owner), salt) : ethers.ZeroHash;
+      const fleetId = Number(enrollment.fleetId);
+      const tx = await enrollDevice(ethers.getAddress(key), fleetId, commitment);
+      const receipt = await trackTransaction(tx, `Enroll ${shortAddress(key)} in ${fleetLabel(fleetId)}`);
+      const deviceId = deviceIdFromReceipt(receipt);
+      if (owner && deviceId !== null) {
+        setIssuedSalt({ deviceId, owner: ethers.getAddress(owner), salt });
+      }
+      setEnrollment({ ...enrollment, key: "", owner: "" });
+      await loadRegistry();
+    } catch (e: any) {
+      onStatus("error", "Enrollment failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const move = async (device: DeviceRecord, fleetId: number) => {
+    setSubmitting(true);
+    try {
+      const tx = await moveDevice(device.id, fleetId);
+      await trackTransaction(tx, `Move device #${device.id} to ${fleetLabel(fleetId)}`);
+      await loadRegistry();
+    } catch (e: any) {
+      onStatus("error", "Moving the device failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const retire = async (device: DeviceRecord) => {
+    if (!confirm(`Retire device #${device.id}? Its key can never submit or be enrolled again.`)) return;
+
+    setSubmitting(true);
+    try {
+      const tx = await retireDevice(device.id);
+      await trackTransaction(tx, `Retire device #${device.id}`);
+      await loadRegistry();
+    } catch (e: any) {
+      onStatus("error", "Retiring the device failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const verifyOwner = async () => {
+    setProofResult(null);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) return;
+      setProofResult(await fetchDeviceOwnership(contract, Number(proof.deviceId), proof.owner.trim(), proof.salt.trim()));
+    } catch (e: any) {
+      onStatus("error", "Ownership check failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  if (!available) {
+    return (
+      <div className="metrics-section">
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const proofReady =
+    /^\d+$/.test(proof.deviceId) && ethers.isAddress(proof.owner.trim()) && ethers.isHexString(proof.salt.trim(), 32);
+
+  return (
+    <div className="metrics-section">
+      <div className="dashboard-card glass-card">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">{fleets.length}</div>
+            <div className="stat-label">Fleets</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{devices.filter(d => d.active).length}</div>
+            <div className="stat-label">Active Devices</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{devices.filter(d => !d.active).length}</div>
+            <div className="stat-label">Retired</div>
+          </div>
+        </div>
+        <p>
+          Every metric and crash report carries the ID of the device that sent it and of its fleet at the time.
+          Owners are never stored, only a commitment that whoever holds the salt can open.
+        </p>
+      </div>
+
+      {isAdmin && (
+        <div className="dashboard-card glass-card">
+          <h3>Enroll a Device</h3>
+          <div className="form-grid">
+            <div className="form-group">
+              <label>New fleet</label>
+              <input
+                type="text"
+                placeholder="e.g. lab"
+                value={fleetName}
+                onChange={(e) => setFleetName(e.target.value)}
+                className="glass-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Device key</label>
+              <input
+                type="text"
+                placeholder="0x..."
+                value={enrollment.key}
+                onChange={(e) => setEnrollment({ ...enrollment, key: e.target.value })}
+                className="glass-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Fleet</label>
+              <select
+                value={enrollment.fleetId}
+                onChange={(e) => setEnrollment({ ...enrollment, fleetId: e.target.value })}
+                className="glass-select"
+              >
+                {fleets.map(fleet => (
+                  <option key={fleet.id} value={fleet.id}>#{fleet.id} {fleet.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Owner (optional)</label>
+              <input
+                type="text"
+                placeholder="0x... (kept off chain)"
+                value={enrollment.owner}
+                onChange={(e) => setEnrollment({ ...enrollment, owner: e.target.value })}
+                className="glass-input"
+              />
+            </div>
+          </div>
+          <div className="header-actions">
+            <button onClick={addFleet} className="glass-button" disabled={submitting || !fleetName.trim()}>
+              Create Fleet
+            </button>
+            <button
+              onClick={enroll}
+              className="glass-button primary"
+              disabled={submitting || !enrollment.key || !enrollment.fleetId}
+            >
+              Enroll Device
+            </button>
+          </div>
+          {issuedSalt && (
+            <p>
+              Device #{issuedSalt.deviceId} is committed to {shortAddress(issuedSalt.owner)}. Hand its owner this salt,
+              it will not be shown again: <code>{issuedSalt.salt}</code>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="section-header">
+        <h2>Devices</h2>
+        <div className="header-actions">
+          <select value={fleetFilter} onChange={(e) => setFleetFilter(e.target.value)} className="glass-select">
+            <option value="">All fleets</option>
+            {fleets.map(fleet => (
+              <option key={fleet.id} value={fleet.id}>
+                {fleet.name} ({fleet.activeDevices} active)
+              </option>
+            ))}
+          </select>
+          <button onClick={loadRegistry} className="refresh-btn glass-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Device</div>
+          <div className="header-cell">Key</div>
+          <div className="header-cell">Fleet</div>
+          <div className="header-cell">Owner</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {shown.length === 0 ? (
+          <div className="no-metrics">
+            <p>No devices enrolled</p>
+          </div>
+        ) : (
+          shown.map(device => (
+            <div className="metric-row" key={device.id}>
+              <div className="table-cell metric-id">#{device.id}</div>
+              <div className="table-cell" title={device.key}>
+                {shortAddress(device.key)}
+                {device.key.toLowerCase() === account.toLowerCase() ? " (you)" : ""}
+              </div>
+              <div className="table-cell">{fleetLabel(device.fleetId)}</div>
+              <div className="table-cell">{device.ownerCommitment === ethers.ZeroHash ? "-" : "committed"}</div>
+              <div className="table-cell">
+                <span className={`status-badge ${device.active ? "active" : "inactive"}`}>
+                  {device.active ? "active" : "retired"}
+                </span>
+              </div>
+              <div className="table-cell actions">
+                {device.active && isAdmin && (
+                  <select
+                    value={device.fleetId}
+                    onChange={(e) => move(device, Number(e.target.value))}
+                    className="glass-select"
+                    disabled={submitting}
+                  >
+                    {fleets.map(fleet => (
+                      <option key={fleet.id} value={fleet.id}>{fleet.name}</option>
+                    ))}
+                  </select>
+                )}
+                {device.active && (isAdmin || device.key.toLowerCase() === account.toLowerCase()) && (
+                  <button className="action-btn glass-button" onClick={() => retire(device)} disabled={submitting}>
+                    Retire
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="dashboard-card glass-card">
+        <h3>Prove Ownership</h3>
+        <p>Checks an owner and salt against a device's commitment without revealing either on chain.</p>
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Device ID</label>
+            <input
+              type="number"
+              min="1"
+              value={proof.deviceId}
+              onChange={(e) => { setProof({ ...proof, deviceId: e.target.value }); setProofResult(null); }}
+              className="glass-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Owner</label>
+            <input
+              type="text"
+              placeholder="0x..."
+              value={proof.owner}
+              onChange={(e) => { setProof({ ...proof, owner: e.target.value }); setProofResult(null); }}
+              className="glass-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Salt</label>
+            <input
+              type="text"
+              placeholder="0x... (32 bytes)"
+              value={proof.salt}
+              onChange={(e) => { setProof({ ...proof, salt: e.target.value }); setProofResult(null); }}
+              className="glass-input"
+            />
+          </div>
+        </div>
+        <div className="header-actions">
+          <button onClick={verifyOwner} className="glass-button" disabled={!proofReady}>
+            Verify
+          </button>
+          {proofResult !== null && (
+            <span className={`status-badge ${proofResult ? "active" : "inactive"}`}>
+              {proofResult ? "owner confirmed" : "no match"}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DevicesPage;
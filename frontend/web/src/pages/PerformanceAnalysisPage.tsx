@@ -0,0 +1,462 @@
+import React, { useEffect, useState } from "react";
+import {
+  addAnalysisViewer,
+  analysisIdFromReceipt,
+  analyzePerformance,
+  analyzePerformanceHomomorphic,
+  DecryptedAnalysis,
+  decryptPerformanceAnalysis,
+  fetchAnalysisIdForRequest,
+  fetchCounts,
+  fetchMaxHomomorphicMetrics,
+  fetchFleets,
+  fetchPerformanceAnalysis,
+  fetchSystemMetric,
+  FleetRecord,
+  getPrivateOSReadOnly,
+  latestIds,
+  PerformanceAnalysisRecord,
+  requestIdFromReceipt,
+  shortHandle,
+  SystemMetricRecord,
+  wasAnomalyDetected
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+const POLL_INTERVAL = 5000;
+const DEFAULT_CANDIDATES = 100;
+
+interface MetricFilter {
+  from: string;
+  to: string;
+  // Fleet ID, or "" for every fleet
+  fleet: string;
+  candidates: number;
+}
+
+interface PendingAnalysis {
+  requestId: bigint;
+  metricIds: number[];
+  fromBlock: number;
+}
+
+// homomorphic: aggregates computed over ciphertexts, nothing but the result is ever decrypted;
+// oracle: every selected sample is decrypted by the oracle and aggregated in cleartext
+type AnalysisMode = "homomorphic" | "oracle";
+
+interface AnalysisResult extends PerformanceAnalysisRecord {
+  // null while the homomorphic path's anomaly score is still encrypted
+  anomalyDetected: boolean | null;
+}
+
+interface PerformanceAnalysisPageProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const toSeconds = (value: string) => value ? Math.floor(new Date(value).getTime() / 1000) : null;
+
+const PerformanceAnalysisPage: React.FC<PerformanceAnalysisPageProps> = ({ account, onStatus }) => {
+  const [available, setAvailable] = useState(true);
+  const [filter, setFilter] = useState<MetricFilter>({ from: "", to: "", fleet: "", candidates: DEFAULT_CANDIDATES });
+  const [metrics, setMetrics] = useState<SystemMetricRecord[]>([]);
+  const [fleets, setFleets] = useState<FleetRecord[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [loadingMetrics, setLoadingMetrics] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [pending, setPending] = useState<PendingAnalysis | null>(null);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [recent, setRecent] = useState<PerformanceAnalysisRecord[]>([]);
+  const [decrypted, setDecrypted] = useState<Record<number, DecryptedAnalysis>>({});
+  const [decryptingId, setDecryptingId] = useState<number | null>(null);
+  const [viewer, setViewer] = useState("");
+  const [mode, setMode] = useState<AnalysisMode>("homomorphic");
+  const [maxHomomorphic, setMaxHomomorphic] = useState<number | null>(null);
+
+  const tooManyForMode = mode === "homomorphic" && maxHomomorphic !== null && selectedIds.length > maxHomomorphic;
+
+  useEffect(() => {
+    loadMetrics();
+  }, []);
+
+  // Wait for the oracle callback, which emits AnalysisCompleted (and AnomalyDetected) for our request
+  useEffect(() => {
+    if (!pending) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const contract = await getPrivateOSReadOnly();
+        if (!contract) return;
+
+        const analysisId = await fetchAnalysisIdForRequest(contract, pending.requestId);
+        if (analysisId === 0) return;
+
+        const analysis = await fetchPerformanceAnalysis(contract, analysisId);
+        const anomalyDetected = await wasAnomalyDetected(contract, analysisId, pending.fromBlock);
+        setResult({ ...analysis, anomalyDetected });
+        setPending(null);
+        onStatus(anomalyDetected ? "error" : "success",
+          `Analysis #${analysisId} completed${anomalyDetected ? " with anomalies" : ""}`);
+        loadRecent();
+      } catch (e) {
+        console.error("Error polling analysis result:", e);
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [pending]);
+
+  const loadRecent = async () => {
+    const contract = await getPrivateOSReadOnly();
+    if (!contract) return;
+    const { analysisCount } = await fetchCounts(contract);
+    setRecent(await Promise.all(
+      latestIds(analysisCount, 10).map(id => fetchPerformanceAnalysis(contract, id))
+    ));
+  };
+
+  const loadMetrics = async () => {
+    setLoadingMetrics(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+
+      const { metricCount } = await fetchCounts(contract);
+      const from = toSeconds(filter.from);
+      const to = toSeconds(filter.to);
+      const fleetId = filter.fleet ? Number(filter.fleet) : null;
+      const list = (await Promise.all(
+        latestIds(metricCount, filter.candidates).map(id => fetchSystemMetric(contract, id))
+      ))
+        .filter(m => (from === null || m.timestamp >= from) && (to === null || m.timestamp <= to))
+        .filter(m => fleetId === null || m.fleetId === fleetId);
+
+      setMaxHomomorphic(await fetchMaxHomomorphicMetrics(contract));
+      setFleets(await fetchFleets(contract));
+      setMetrics(list);
+      setSelectedIds(list.map(m => m.id));
+      await loadRecent();
+    } catch (e) {
+      console.error("Error loading metrics for analysis:", e);
+    } finally {
+      setLoadingMetrics(false);
+    }
+  };
+
+  const submitAnalysis = async () => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (selectedIds.length === 0) return;
+
+    setSubmitting(true);
+    setResult(null);
+    try {
+      if (mode === "homomorphic") {
+        const tx = await analyzePerformanceHomomorphic(selectedIds);
+        const receipt = await trackTransaction(tx, `Analyze ${selectedIds.length} metrics homomorphically`);
+        const analysisId = analysisIdFromReceipt(receipt);
+        const contract = await getPrivateOSReadOnly();
+        if (analysisId === null || !contract) {
+          throw new Error("AnalysisCompleted event missing from receipt");
+        }
+        setResult({ ...(await fetchPerformanceAnalysis(contract, analysisId)), anomalyDetected: null });
+        onStatus("success", `Analysis #${analysisId} computed over the encrypted samples`);
+        await loadRecent();
+        return;
+      }
+
+      const tx = await analyzePerformance(selectedIds);
+      const receipt = await trackTransaction(tx, `Analyze ${selectedIds.length} metrics`);
+      const requestId = requestIdFromReceipt(receipt);
+      if (requestId === null) {
+        throw new Error("AnalysisRequested event missing from receipt");
+      }
+      setPending({ requestId, metricIds: selectedIds, fromBlock: receipt.blockNumber });
+      onStatus("success", "Analysis requested, waiting for the decryption oracle");
+    } catch (e: any) {
+      onStatus("error", "Analysis request failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const decryptAnalysis = async (analysis: PerformanceAnalysisRecord) => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setDecryptingId(analysis.id);
+    onStatus("pending", `Sign the decryption request for analysis #${analysis.id}...`);
+    try {
+      const values = await decryptPerformanceAnalysis(analysis);
+      setDecrypted(d => ({ ...d, [analysis.id]: values }));
+      onStatus("success", `Analysis #${analysis.id} decrypted`);
+    } catch (e: any) {
+      onStatus("error", "Decryption failed: " + (e.message || "Unknown error"));
+    } finally {
+      setDecryptingId(null);
+    }
+  };
+
+  const shareAnalysis = async (analysisId: number) => {
+    if (!viewer) return;
+
+    try {
+      const tx = await addAnalysisViewer(analysisId, viewer.trim());
+      await trackTransaction(tx, `Share analysis #${analysisId}`);
+      setViewer("");
+    } catch (e: any) {
+      onStatus("error", "Adding viewer failed: " + describeTransactionError(e));
+    }
+  };
+
+  const anomalyBadge = (analysis: AnalysisResult) => {
+    const anomalous = analysis.anomalyDetected ?? (decrypted[analysis.id] ? decrypted[analysis.id].anomalyScore > 0 : null);
+    if (anomalous === null) {
+      return <span className="status-badge unknown">decrypt to see anomalies</span>;
+    }
+    return (
+      <span className={`status-badge ${anomalous ? "inactive" : "active"}`}>
+        {anomalous ? "anomaly detected" : "normal"}
+      </span>
+    );
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  if (!available) {
+    return (
+      <div className="metrics-section">
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="metrics-section">
+      <div className="section-header">
+        <h2>Performance Analysis</h2>
+      </div>
+
+      <div className="dashboard-card glass-card">
+        <div className="form-grid">
+          <div className="form-group">
+            <label>From</label>
+            <input
+              type="datetime-local"
+              value={filter.from}
+              onChange={(e) => setFilter({ ...filter, from: e.target.value })}
+              className="glass-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>To</label>
+            <input
+              type="datetime-local"
+              value={filter.to}
+              onChange={(e) => setFilter({ ...filter, to: e.target.value })}
+              className="glass-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Fleet</label>
+            <select
+              value={filter.fleet}
+              onChange={(e) => setFilter({ ...filter, fleet: e.target.value })}
+              className="glass-select"
+            >
+              <option value="">All fleets</option>
+              {fleets.map(fleet => (
+                <option key={fleet.id} value={fleet.id}>#{fleet.id} {fleet.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Search latest</label>
+            <input
+              type="number"
+              min="1"
+              value={filter.candidates}
+              onChange={(e) => setFilter({ ...filter, candidates: Number(e.target.value) || DEFAULT_CANDIDATES })}
+              className="glass-input"
+            />
+          </div>
+        </div>
+        <div className="header-actions">
+          <button onClick={loadMetrics} className="glass-button" disabled={loadingMetrics}>
+            {loadingMetrics ? "Loading..." : "Apply Filter"}
+          </button>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as AnalysisMode)}
+            className="glass-select"
+            title="Homomorphic analysis never decrypts individual samples"
+          >
+            <option value="homomorphic">Homomorphic (decrypts only the result)</option>
+            <option value="oracle">Oracle (decrypts every sample)</option>
+          </select>
+          <button
+            onClick={submitAnalysis}
+            className="glass-button primary"
+            disabled={submitting || pending !== null || selectedIds.length === 0 || tooManyForMode}
+          >
+            {pending
+              ? "Waiting for oracle..."
+              : tooManyForMode
+                ? `Select at most ${maxHomomorphic} Metrics`
+                : `Analyze ${selectedIds.length} Metrics`}
+          </button>
+        </div>
+      </div>
+
+      {(pending || result) && (
+        <div className="dashboard-card glass-card">
+          {pending && (
+            <p>
+              Request #{pending.requestId.toString()} for {pending.metricIds.length} metrics is waiting
+              for AnalysisCompleted...
+            </p>
+          )}
+          {result && (
+            <>
+              <h3>
+                Analysis #{result.id}{" "}
+                {anomalyBadge(result)}
+              </h3>
+              <div className="stats-grid">
+                <div className="stat-item">
+                  <div className="stat-value">
+                    {decrypted[result.id] ? `${decrypted[result.id].avgCpu}%` : shortHandle(result.avgCpuHandle)}
+                  </div>
+                  <div className="stat-label">encryptedAvgCpu</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">
+                    {decrypted[result.id] ? `${decrypted[result.id].peakMemory}%` : shortHandle(result.peakMemoryHandle)}
+                  </div>
+                  <div className="stat-label">encryptedPeakMemory</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">
+                    {decrypted[result.id] ? decrypted[result.id].anomalyScore : shortHandle(result.anomalyScoreHandle)}
+                  </div>
+                  <div className="stat-label">encryptedAnomalyScore</div>
+                </div>
+              </div>
+              <div className="header-actions">
+                <button
+                  onClick={() => decryptAnalysis(result)}
+                  className="glass-button primary"
+                  disabled={decryptingId !== null || !!decrypted[result.id]}
+                >
+                  {decryptingId === result.id ? "Decrypting..." : "Decrypt"}
+                </button>
+                <input
+                  type="text"
+                  placeholder="Viewer address 0x..."
+                  value={viewer}
+                  onChange={(e) => setViewer(e.target.value)}
+                  className="glass-input"
+                />
+                <button onClick={() => shareAnalysis(result.id)} className="glass-button" disabled={!viewer}>
+                  Add Viewer
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">ID</div>
+          <div className="header-cell">Device</div>
+          <div className="header-cell">CPU</div>
+          <div className="header-cell">Memory</div>
+          <div className="header-cell">Disk</div>
+          <div className="header-cell">Date</div>
+        </div>
+        {metrics.length === 0 ? (
+          <div className="no-metrics">
+            <p>No metrics match the filter</p>
+          </div>
+        ) : (
+          metrics.map(metric => (
+            <div className="metric-row" key={metric.id}>
+              <div className="table-cell metric-id">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(metric.id)}
+                  onChange={() => toggleSelected(metric.id)}
+                />{" "}
+                #{metric.id}
+              </div>
+              <div className="table-cell">
+                #{metric.deviceId} in {fleets.find(f => f.id === metric.fleetId)?.name ?? `fleet #${metric.fleetId}`}
+              </div>
+              <div className="table-cell">{shortHandle(metric.cpuHandle)}</div>
+              <div className="table-cell">{shortHandle(metric.memoryHandle)}</div>
+              <div className="table-cell">{shortHandle(metric.diskHandle)}</div>
+              <div className="table-cell">{new Date(metric.timestamp * 1000).toLocaleString()}</div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Analysis</div>
+          <div className="header-cell">Avg CPU</div>
+          <div className="header-cell">Peak Memory</div>
+          <div className="header-cell">Anomaly Score</div>
+          <div className="header-cell">Decrypted</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {recent.length === 0 ? (
+          <div className="no-metrics">
+            <p>No analyses yet</p>
+          </div>
+        ) : (
+          recent.map(analysis => (
+            <div className="metric-row" key={analysis.id}>
+              <div className="table-cell metric-id">#{analysis.id}</div>
+              <div className="table-cell">{shortHandle(analysis.avgCpuHandle)}</div>
+              <div className="table-cell">{shortHandle(analysis.peakMemoryHandle)}</div>
+              <div className="table-cell">{shortHandle(analysis.anomalyScoreHandle)}</div>
+              <div className="table-cell">
+                {decrypted[analysis.id]
+                  ? `cpu ${decrypted[analysis.id].avgCpu}% / mem ${decrypted[analysis.id].peakMemory}% / score ${decrypted[analysis.id].anomalyScore}`
+                  : "-"}
+              </div>
+              <div className="table-cell actions">
+                {!decrypted[analysis.id] && (
+                  <button
+                    className="action-btn glass-button"
+                    onClick={() => decryptAnalysis(analysis)}
+                    disabled={decryptingId !== null}
+                  >
+                    {decryptingId === analysis.id ? "Decrypting..." : "Decrypt"}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PerformanceAnalysisPage;
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  fetchAccountRoles,
+  fetchMetricAccess,
+  fetchRoleMembers,
+  getPrivateOSReadOnly,
+  grantMetricAccess,
+  grantRole,
+  PrivateOSRole,
+  revokeRole,
+  RoleMember,
+  ROLES
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+interface RolesPageProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const RolesPage: React.FC<RolesPageProps> = ({ account, onStatus }) => {
+  const [available, setAvailable] = useState(true);
+  const [members, setMembers] = useState<RoleMember[]>([]);
+  const [ownRoles, setOwnRoles] = useState<PrivateOSRole[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [target, setTarget] = useState("");
+  const [role, setRole] = useState<PrivateOSRole>("analyst");
+  const [submitting, setSubmitting] = useState(false);
+  const [access, setAccess] = useState({ metricId: "", analyst: "" });
+  const [accessResult, setAccessResult] = useState<boolean | null>(null);
+
+  const isAdmin = ownRoles.includes("admin");
+  const countOf = (r: PrivateOSRole) => members.filter(m => m.roles.includes(r)).length;
+
+  useEffect(() => {
+    loadRoles();
+  }, [account]);
+
+  const loadRoles = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+      setMembers(await fetchRoleMembers(contract));
+      setOwnRoles(account ? await fetchAccountRoles(contract, account) : []);
+    } catch (e) {
+      console.error("Error loading roles:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const changeRole = async (action: "grant" | "revoke") => {
+    if (!ethers.isAddress(target.trim())) {
+      alert("Enter a valid address");
+      return;
+    }
+
+    const address = ethers.getAddress(target.trim());
+    setSubmitting(true);
+    try {
+      const tx = action === "grant" ? await grantRole(role, address) : await revokeRole(role, address);
+      await trackTransaction(tx, `${action === "grant" ? "Grant" : "Revoke"} ${role} role ${action === "grant" ? "to" : "from"} ${address.substring(0, 6)}`);
+      setTarget("");
+      await loadRoles();
+    } catch (e: any) {
+      onStatus("error", `Role ${action} failed: ` + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const checkAccess = async () => {
+    setAccessResult(null);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) return;
+      setAccessResult(await fetchMetricAccess(contract, Number(access.metricId), access.analyst.trim()));
+    } catch (e: any) {
+      onStatus("error", "Access check failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const shareMetric = async () => {
+    const metricId = Number(access.metricId);
+    setSubmitting(true);
+    try {
+      const tx = await grantMetricAccess(metricId, access.analyst.trim());
+      await trackTransaction(tx, `Grant access to metric #${metricId}`);
+      setAccessResult(true);
+    } catch (e: any) {
+      onStatus("error", "Granting metric access failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!available) {
+    return (
+      <div className="metrics-section">
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const accessReady = /^\d+$/.test(access.metricId) && ethers.isAddress(access.analyst.trim());
+
+  return (
+    <div className="metrics-section">
+      <div className="dashboard-card glass-card">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">{countOf("admin")}</div>
+            <div className="stat-label">Admins</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{countOf("analyst")}</div>
+            <div className="stat-label">Analysts</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{countOf("device")}</div>
+            <div className="stat-label">Devices</div>
+          </div>
+        </div>
+        <p>
+          {!account
+            ? "Connect a wallet to see your roles"
+            : ownRoles.length === 0
+              ? "Your account holds no role: it can read, but not submit data or request decryptions"
+              : `Your roles: ${ownRoles.join(", ")}`}
+        </p>
+      </div>
+
+      {isAdmin && (
+        <div className="dashboard-card glass-card">
+          <h3>Manage Roles</h3>
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Account</label>
+              <input
+                type="text"
+                placeholder="0x..."
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="glass-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Role</label>
+              <select value={role} onChange={(e) => setRole(e.target.value as PrivateOSRole)} className="glass-select">
+                {ROLES.filter(r => r !== "device").map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+          </div>
+          <p>Devices get their role by being enrolled on the Devices page, and lose it when retired.</p>
+          <div className="header-actions">
+            <button onClick={() => changeRole("grant")} className="glass-button primary" disabled={submitting || !target}>
+              Grant
+            </button>
+            <button onClick={() => changeRole("revoke")} className="glass-button" disabled={submitting || !target}>
+              Revoke
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="section-header">
+        <h2>Role Members</h2>
+        <div className="header-actions">
+          <button onClick={loadRoles} className="refresh-btn glass-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Account</div>
+          <div className="header-cell">Admin</div>
+          <div className="header-cell">Analyst</div>
+          <div className="header-cell">Device</div>
+          <div className="header-cell"></div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {members.length === 0 ? (
+          <div className="no-metrics">
+            <p>No role grants found</p>
+          </div>
+        ) : (
+          members.map(member => (
+            <div className="metric-row" key={member.account}>
+              <div className="table-cell metric-id" title={member.account}>
+                {member.account.substring(0, 6)}...{member.account.substring(38)}
+              </div>
+              {ROLES.map(r => (
+                <div className="table-cell" key={r}>
+                  <span className={`status-badge ${member.roles.includes(r) ? "active" : "inactive"}`}>
+                    {member.roles.includes(r) ? "yes" : "no"}
+                  </span>
+                </div>
+              ))}
+              <div className="table-cell">{member.account.toLowerCase() === account.toLowerCase() ? "you" : ""}</div>
+              <div className="table-cell actions">
+                {isAdmin && (
+                  <button className="action-btn glass-button" onClick={() => setTarget(member.account)}>
+                    Edit
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="dashboard-card glass-card">
+        <h3>Metric Access</h3>
+        <p>Analysts can only decrypt a metric themselves once an admin grants them its handles. The grant cannot be taken back.</p>
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Metric ID</label>
+            <input
+              type="number"
+              min="1"
+              value={access.metricId}
+              onChange={(e) => { setAccess({ ...access, metricId: e.target.value }); setAccessResult(null); }}
+              className="glass-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Analyst</label>
+            <input
+              type="text"
+              placeholder="0x..."
+              value={access.analyst}
+              onChange={(e) => { setAccess({ ...access, analyst: e.target.value }); setAccessResult(null); }}
+              className="glass-input"
+            />
+          </div>
+        </div>
+        <div className="header-actions">
+          <button onClick={checkAccess} className="glass-button" disabled={!accessReady}>
+            Check Access
+          </button>
+          {isAdmin && (
+            <button onClick={shareMetric} className="glass-button primary" disabled={!accessReady || submitting}>
+              Grant Access
+            </button>
+          )}
+          {accessResult !== null && (
+            <span className={`status-badge ${accessResult ? "active" : "inactive"}`}>
+              {accessResult ? "can decrypt" : "no access"}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RolesPage;
@@ -0,0 +1,469 @@
+import React, { useEffect, useState } from "react";
+import {
+  addRule,
+  AnomalyRecord,
+  AnomalyRuleInput,
+  AnomalyRuleRecord,
+  checkMetric,
+  fetchAccountRoles,
+  fetchMetricCheck,
+  fetchRecentAnomalies,
+  fetchRules,
+  getPrivateOSReadOnly,
+  PrivateOSRole,
+  RULE_FIELDS,
+  RuleField,
+  setRuleEnabled,
+  updateRule
+} from "../privateOS";
+import { describeTransactionError, trackTransaction } from "../transactions";
+
+const POLL_INTERVAL = 5000;
+const RECENT_ANOMALIES = 20;
+// Mirror the contract's MAX_ZSCORE_WINDOW and MAX_ZSCORE_DEVIATIONS
+const MAX_WINDOW = 8;
+const MAX_DEVIATIONS = 10;
+
+const EMPTY_RULE: AnomalyRuleInput = {
+  name: "",
+  kind: "threshold",
+  fields: ["cpuUsage"],
+  matchAll: false,
+  thresholds: { cpuUsage: 90, memoryUsage: 85, diskActivity: 0, networkTraffic: 0 },
+  deviations: 3,
+  window: MAX_WINDOW,
+  enabled: true
+};
+
+interface PendingCheck {
+  metricId: number;
+  ruleId: number;
+  fromBlock: number;
+}
+
+function describeRule(rule: AnomalyRuleInput): string {
+  if (rule.kind === "zscore") {
+    return `${rule.fields[0]} beyond ${rule.deviations}σ of the previous ${rule.window}`;
+  }
+  return rule.fields.map(f => `${f} > ${rule.thresholds[f]}`).join(rule.matchAll ? " and " : " or ");
+}
+
+interface RulesPageProps {
+  account: string;
+  onStatus: (status: "pending" | "success" | "error", message: string) => void;
+}
+
+const RulesPage: React.FC<RulesPageProps> = ({ account, onStatus }) => {
+  const [available, setAvailable] = useState(true);
+  const [rules, setRules] = useState<AnomalyRuleRecord[]>([]);
+  const [anomalies, setAnomalies] = useState<AnomalyRecord[]>([]);
+  const [ownRoles, setOwnRoles] = useState<PrivateOSRole[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [draft, setDraft] = useState<AnomalyRuleInput>(EMPTY_RULE);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [check, setCheck] = useState({ metricId: "", ruleId: "" });
+  const [pendingCheck, setPendingCheck] = useState<PendingCheck | null>(null);
+  const [checkResult, setCheckResult] = useState<boolean | null>(null);
+
+  const isAdmin = ownRoles.includes("admin");
+  const isAnalyst = ownRoles.includes("analyst");
+  const enabledRules = rules.filter(r => r.enabled);
+
+  useEffect(() => {
+    loadRules();
+  }, [account]);
+
+  // Wait for the metricChecked callback, which carries the decrypted verdict
+  useEffect(() => {
+    if (!pendingCheck) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const contract = await getPrivateOSReadOnly();
+        if (!contract) return;
+
+        const fired = await fetchMetricCheck(contract, pendingCheck.metricId, pendingCheck.ruleId, pendingCheck.fromBlock);
+        if (fired === null) return;
+
+        setCheckResult(fired);
+        setPendingCheck(null);
+        onStatus(fired ? "error" : "success",
+          `Metric #${pendingCheck.metricId} ${fired ? "is anomalous" : "passed"} under rule #${pendingCheck.ruleId}`);
+        loadRules();
+      } catch (e) {
+        console.error("Error polling metric check:", e);
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [pendingCheck]);
+
+  const loadRules = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getPrivateOSReadOnly();
+      if (!contract) {
+        setAvailable(false);
+        return;
+      }
+      setAvailable(true);
+      setRules(await fetchRules(contract));
+      setAnomalies(await fetchRecentAnomalies(contract, RECENT_ANOMALIES));
+      setOwnRoles(account ? await fetchAccountRoles(contract, account) : []);
+    } catch (e) {
+      console.error("Error loading rules:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const toggleField = (field: RuleField) => {
+    if (draft.kind === "zscore") {
+      setDraft({ ...draft, fields: [field] });
+      return;
+    }
+    const fields = draft.fields.includes(field)
+      ? draft.fields.filter(f => f !== field)
+      : RULE_FIELDS.filter(f => f === field || draft.fields.includes(f));
+    setDraft({ ...draft, fields });
+  };
+
+  const setKind = (kind: AnomalyRuleInput["kind"]) => {
+    // Z-score rules watch a single field
+    setDraft({ ...draft, kind, fields: kind === "zscore" ? draft.fields.slice(0, 1) : draft.fields });
+  };
+
+  const editRule = (rule: AnomalyRuleRecord) => {
+    const { id, ...input } = rule;
+    setEditingId(id);
+    setDraft(input);
+  };
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(EMPTY_RULE);
+  };
+
+  const saveRule = async () => {
+    if (!draft.name.trim() || draft.fields.length === 0) {
+      alert("Name the rule and select at least one field");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const rule = { ...draft, name: draft.name.trim() };
+      const tx = editingId === null ? await addRule(rule) : await updateRule(editingId, rule);
+      await trackTransaction(tx, editingId === null ? `Add rule "${rule.name}"` : `Update rule #${editingId}`);
+      resetDraft();
+      await loadRules();
+    } catch (e: any) {
+      onStatus("error", "Saving the rule failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleRule = async (rule: AnomalyRuleRecord) => {
+    setSubmitting(true);
+    try {
+      const tx = await setRuleEnabled(rule.id, !rule.enabled);
+      await trackTransaction(tx, `${rule.enabled ? "Disable" : "Enable"} rule #${rule.id}`);
+      await loadRules();
+    } catch (e: any) {
+      onStatus("error", "Updating the rule failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const runCheck = async () => {
+    const metricId = Number(check.metricId);
+    const ruleId = Number(check.ruleId);
+    setCheckResult(null);
+    setSubmitting(true);
+    try {
+      const tx = await checkMetric(metricId, ruleId);
+      const receipt = await trackTransaction(tx, `Check metric #${metricId} against rule #${ruleId}`);
+      setPendingCheck({ metricId, ruleId, fromBlock: receipt.blockNumber });
+      onStatus("success", "Check requested, waiting for the decryption oracle");
+    } catch (e: any) {
+      onStatus("error", "Metric check failed: " + describeTransactionError(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!available) {
+    return (
+      <div className="metrics-section">
+        <div className="metrics-list glass-card">
+          <div className="no-metrics">
+            <p>PrivateOSFHE is not deployed at the configured address</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const checkReady = /^\d+$/.test(check.metricId) && check.ruleId !== "" && !pendingCheck;
+
+  return (
+    <div className="metrics-section">
+      <div className="dashboard-card glass-card">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">{rules.length}</div>
+            <div className="stat-label">Rules</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{enabledRules.length}</div>
+            <div className="stat-label">Enabled</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{anomalies.length}</div>
+            <div className="stat-label">Recent Anomalies</div>
+          </div>
+        </div>
+        <p>
+          Threshold rules are evaluated by every performance analysis. Z-score rules compare a reading with the
+          metrics submitted before it, and only run through a metric check.
+        </p>
+      </div>
+
+      {isAdmin && (
+        <div className="dashboard-card glass-card">
+          <h3>{editingId === null ? "Add Rule" : `Edit Rule #${editingId}`}</h3>
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Name</label>
+              <input
+                type="text"
+                placeholder="e.g. disk-saturation"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="glass-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Kind</label>
+              <select
+                value={draft.kind}
+                onChange={(e) => setKind(e.target.value as AnomalyRuleInput["kind"])}
+                className="glass-select"
+              >
+                <option value="threshold">Threshold</option>
+                <option value="zscore">Z-score against rolling baseline</option>
+              </select>
+            </div>
+            <div className="form-group full-width">
+              <label>Fields</label>
+              <div className="header-actions">
+                {RULE_FIELDS.map(field => (
+                  <label key={field}>
+                    <input
+                      type={draft.kind === "zscore" ? "radio" : "checkbox"}
+                      checked={draft.fields.includes(field)}
+                      onChange={() => toggleField(field)}
+                    />{" "}
+                    {field}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {draft.kind === "threshold" ? (
+              <>
+                {draft.fields.map(field => (
+                  <div className="form-group" key={field}>
+                    <label>{field} above</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={draft.thresholds[field]}
+                      onChange={(e) => setDraft({
+                        ...draft,
+                        thresholds: { ...draft.thresholds, [field]: Number(e.target.value) }
+                      })}
+                      className="glass-input"
+                    />
+                  </div>
+                ))}
+                <div className="form-group">
+                  <label>Fire when</label>
+                  <select
+                    value={draft.matchAll ? "all" : "any"}
+                    onChange={(e) => setDraft({ ...draft, matchAll: e.target.value === "all" })}
+                    className="glass-select"
+                  >
+                    <option value="any">Any field exceeds its threshold</option>
+                    <option value="all">Every field exceeds its threshold</option>
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="form-group">
+                  <label>Standard deviations</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_DEVIATIONS}
+                    value={draft.deviations}
+                    onChange={(e) => setDraft({ ...draft, deviations: Number(e.target.value) })}
+                    className="glass-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Baseline window (metrics)</label>
+                  <input
+                    type="number"
+                    min="2"
+                    max={MAX_WINDOW}
+                    value={draft.window}
+                    onChange={(e) => setDraft({ ...draft, window: Number(e.target.value) })}
+                    className="glass-input"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          <p>{draft.fields.length > 0 ? `Fires when ${describeRule(draft)}` : "Select at least one field"}</p>
+          <div className="header-actions">
+            <button onClick={saveRule} className="glass-button primary" disabled={submitting}>
+              {editingId === null ? "Add Rule" : "Save Rule"}
+            </button>
+            {editingId !== null && (
+              <button onClick={resetDraft} className="glass-button" disabled={submitting}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="section-header">
+        <h2>Anomaly Rules</h2>
+        <div className="header-actions">
+          <button onClick={loadRules} className="refresh-btn glass-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Rule</div>
+          <div className="header-cell">Name</div>
+          <div className="header-cell">Kind</div>
+          <div className="header-cell">Condition</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {rules.length === 0 ? (
+          <div className="no-metrics">
+            <p>No anomaly rules defined</p>
+          </div>
+        ) : (
+          rules.map(rule => (
+            <div className="metric-row" key={rule.id}>
+              <div className="table-cell metric-id">#{rule.id}</div>
+              <div className="table-cell">{rule.name}</div>
+              <div className="table-cell">{rule.kind === "threshold" ? "threshold" : "z-score"}</div>
+              <div className="table-cell">{describeRule(rule)}</div>
+              <div className="table-cell">
+                <span className={`status-badge ${rule.enabled ? "active" : "inactive"}`}>
+                  {rule.enabled ? "enabled" : "disabled"}
+                </span>
+              </div>
+              <div className="table-cell actions">
+                {isAdmin && (
+                  <>
+                    <button className="action-btn glass-button" onClick={() => editRule(rule)} disabled={submitting}>
+                      Edit
+                    </button>
+                    <button className="action-btn glass-button" onClick={() => toggleRule(rule)} disabled={submitting}>
+                      {rule.enabled ? "Disable" : "Enable"}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {isAnalyst && (
+        <div className="dashboard-card glass-card">
+          <h3>Check Metric</h3>
+          <p>Evaluates one rule against one encrypted metric. Only whether the rule fired is decrypted.</p>
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Metric ID</label>
+              <input
+                type="number"
+                min="1"
+                value={check.metricId}
+                onChange={(e) => { setCheck({ ...check, metricId: e.target.value }); setCheckResult(null); }}
+                className="glass-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Rule</label>
+              <select
+                value={check.ruleId}
+                onChange={(e) => { setCheck({ ...check, ruleId: e.target.value }); setCheckResult(null); }}
+                className="glass-select"
+              >
+                <option value="">Select a rule</option>
+                {enabledRules.map(r => <option key={r.id} value={r.id}>#{r.id} {r.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="header-actions">
+            <button onClick={runCheck} className="glass-button primary" disabled={!checkReady || submitting}>
+              {pendingCheck ? "Awaiting Oracle..." : "Check"}
+            </button>
+            {checkResult !== null && (
+              <span className={`status-badge ${checkResult ? "inactive" : "active"}`}>
+                {checkResult ? "anomaly" : "normal"}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="section-header">
+        <h2>Recent Anomalies</h2>
+      </div>
+
+      <div className="metrics-list glass-card">
+        <div className="table-header">
+          <div className="header-cell">Metric</div>
+          <div className="header-cell">Rule</div>
+          <div className="header-cell">Name</div>
+          <div className="header-cell">Block</div>
+          <div className="header-cell">Transaction</div>
+          <div className="header-cell"></div>
+        </div>
+        {anomalies.length === 0 ? (
+          <div className="no-metrics">
+            <p>No rule has fired yet</p>
+          </div>
+        ) : (
+          anomalies.map(anomaly => (
+            <div className="metric-row" key={`${anomaly.txHash}-${anomaly.metricId}-${anomaly.ruleId}`}>
+              <div className="table-cell metric-id">#{anomaly.metricId}</div>
+              <div className="table-cell">#{anomaly.ruleId}</div>
+              <div className="table-cell">{anomaly.rule}</div>
+              <div className="table-cell">{anomaly.blockNumber}</div>
+              <div className="table-cell" title={anomaly.txHash}>{anomaly.txHash.substring(0, 10)}...</div>
+              <div className="table-cell"></div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RulesPage;
@@ -0,0 +1,541 @@
+// privateOS.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/PrivateOSFHE.json";
+import { contractAddress, deploymentBlock, requireContractAddress } from "./networks";
+import { getReadProvider } from "./rpc";
+import { getSigner } from "./wallet";
+import { encryptUint32, userDecryptUint32 } from "./fhe";
+import { AnomalyRuleKind, PrivateOSRole, ROLE_IDS, ROLES, RULE_FIELDS, RuleField } from "../../../src/client/schema";
+
+export * from "../../../src/client/schema";
+
+export const PRIVATE_OS_ABI = (abiJson as any).abi || abiJson;
+
+// The one IACL method the dashboard needs, to check grants on any handle
+const ACL_ABI = ["function isAllowed(bytes32 handle, address account) view returns (bool)"];
+
+export interface SystemMetricRecord {
+  id: number;
+  cpuHandle: string;
+  memoryHandle: string;
+  diskHandle: string;
+  networkHandle: string;
+  deviceId: number;
+  // The fleet the device was in when it submitted
+  fleetId: number;
+  timestamp: number;
+}
+
+export interface CrashReportRecord {
+  id: number;
+  errorCodeHandle: string;
+  memoryDumpHashHandle: string;
+  processIdHandle: string;
+  deviceId: number;
+  fleetId: number;
+  isAnalyzed: boolean;
+}
+
+export interface PerformanceAnalysisRecord {
+  id: number;
+  avgCpuHandle: string;
+  peakMemoryHandle: string;
+  anomalyScoreHandle: string;
+}
+
+export interface DecryptedAnalysis {
+  avgCpu: number;
+  peakMemory: number;
+  anomalyScore: number;
+}
+
+export interface PrivateOSCounts {
+  metricCount: number;
+  crashCount: number;
+  analysisCount: number;
+}
+
+export interface RoleMember {
+  account: string;
+  roles: PrivateOSRole[];
+}
+
+export interface FleetRecord {
+  id: number;
+  name: string;
+  activeDevices: number;
+}
+
+export interface DeviceRecord {
+  id: number;
+  key: string;
+  fleetId: number;
+  // keccak256(owner, salt), or zero when enrolled without an owner
+  ownerCommitment: string;
+  active: boolean;
+}
+
+export interface AnomalyRuleInput {
+  name: string;
+  kind: AnomalyRuleKind;
+  fields: RuleField[];
+  // Fire when every selected field exceeds its threshold instead of any
+  matchAll: boolean;
+  thresholds: Record<RuleField, number>;
+  deviations: number;
+  window: number;
+  enabled: boolean;
+}
+
+export interface AnomalyRuleRecord extends AnomalyRuleInput {
+  id: number;
+}
+
+export interface AnomalyRecord {
+  metricId: number;
+  ruleId: number;
+  rule: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface SystemMetricSample {
+  cpuUsage: number | string;
+  memoryUsage: number | string;
+  diskActivity: number | string;
+  networkTraffic: number | string;
+}
+
+export interface CrashSample {
+  errorCode: number | string;
+  memoryDumpHash: number | string;
+  processId: number | string;
+}
+
+// Public RPC endpoints refuse eth_getLogs over wide block ranges, so scans go page by page
+const LOG_PAGE_BLOCKS = 10_000;
+
+async function headBlock(contract: ethers.Contract): Promise<number> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("PrivateOSFHE contract has no provider");
+  return provider.getBlockNumber();
+}
+
+// Every matching log from fromBlock (by default the deployment block) to the head, oldest first
+async function queryLogs(
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  fromBlock: number = deploymentBlock()
+): Promise<(ethers.EventLog | ethers.Log)[]> {
+  const head = await headBlock(contract);
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let start = fromBlock; start <= head; start += LOG_PAGE_BLOCKS) {
+    logs.push(...await contract.queryFilter(filter, start, Math.min(start + LOG_PAGE_BLOCKS - 1, head)));
+  }
+  return logs;
+}
+
+// The last `limit` matching logs, oldest first, scanning back from the head only as far as needed
+async function queryRecentLogs(
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  limit: number
+): Promise<(ethers.EventLog | ethers.Log)[]> {
+  const floor = deploymentBlock();
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let end = await headBlock(contract); end >= floor && logs.length < limit; end -= LOG_PAGE_BLOCKS) {
+    logs.unshift(...await contract.queryFilter(filter, Math.max(end - LOG_PAGE_BLOCKS + 1, floor), end));
+  }
+  return logs.slice(-limit);
+}
+
+export async function getPrivateOSReadOnly() {
+  const address = contractAddress("privateOSFHEAddress");
+  if (!address) {
+    return null;
+  }
+  try {
+    const provider = await getReadProvider();
+    const code = await provider.getCode(address);
+    if (code === "0x") {
+      return null;
+    }
+    return new ethers.Contract(address, PRIVATE_OS_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only PrivateOSFHE contract:", error);
+    return null;
+  }
+}
+
+export async function getPrivateOSWithSigner() {
+  const address = requireContractAddress("privateOSFHEAddress");
+  const signer = await getSigner();
+  return new ethers.Contract(address, PRIVATE_OS_ABI, signer);
+}
+
+export async function fetchCounts(contract: ethers.Contract): Promise<PrivateOSCounts> {
+  const [metricCount, crashCount, analysisCount] = await Promise.all([
+    contract.metricCount(),
+    contract.crashCount(),
+    contract.analysisCount()
+  ]);
+  return {
+    metricCount: Number(metricCount),
+    crashCount: Number(crashCount),
+    analysisCount: Number(analysisCount)
+  };
+}
+
+export async function fetchAccountRoles(contract: ethers.Contract, account: string): Promise<PrivateOSRole[]> {
+  const held = await Promise.all(ROLES.map(role => contract.hasRole(ROLE_IDS[role], account)));
+  return ROLES.filter((_, i) => held[i]);
+}
+
+// The contract keeps no member lists, so they are rebuilt by replaying grants and revocations in order
+export async function fetchRoleMembers(contract: ethers.Contract): Promise<RoleMember[]> {
+  const [granted, revoked] = await Promise.all([
+    queryLogs(contract, contract.filters.RoleGranted()),
+    queryLogs(contract, contract.filters.RoleRevoked())
+  ]);
+  const logs = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const members = new Map<string, Set<PrivateOSRole>>();
+  for (const log of logs as ethers.EventLog[]) {
+    const role = ROLES.find(r => ROLE_IDS[r] === log.args.role);
+    if (!role) continue;
+    const account = ethers.getAddress(log.args.account);
+    const roles = members.get(account) ?? new Set<PrivateOSRole>();
+    if (log.eventName === "RoleGranted") roles.add(role);
+    else roles.delete(role);
+    members.set(account, roles);
+  }
+  return [...members.entries()]
+    .filter(([, roles]) => roles.size > 0)
+    .map(([account, roles]) => ({ account, roles: ROLES.filter(r => roles.has(r)) }));
+}
+
+// Read from the ACL itself, so it reflects grants made by metric submission as well as by admins
+export async function fetchMetricAccess(contract: ethers.Contract, metricId: number, account: string): Promise<boolean> {
+  const metric = await fetchSystemMetric(contract, metricId);
+  const acl = new ethers.Contract(await contract.aclAddress(), ACL_ABI, contract.runner);
+  const handles = [metric.cpuHandle, metric.memoryHandle, metric.diskHandle, metric.networkHandle];
+  const allowed = await Promise.all(handles.map(handle => acl.isAllowed(handle, account)));
+  return allowed.every(Boolean);
+}
+
+export function shortHandle(handle: string) {
+  return `${handle.substring(0, 8)}…${handle.substring(handle.length - 4)}`;
+}
+
+// IDs are 1-based and assigned sequentially, so the newest `limit` entries are count, count-1, ...
+export function latestIds(count: number, limit: number): number[] {
+  const ids: number[] = [];
+  for (let id = count; id > 0 && ids.length < limit; id--) {
+    ids.push(id);
+  }
+  return ids;
+}
+
+export async function fetchSystemMetric(contract: ethers.Contract, id: number): Promise<SystemMetricRecord> {
+  const m = await contract.systemMetrics(id);
+  return {
+    id,
+    cpuHandle: m.encryptedCpuUsage,
+    memoryHandle: m.encryptedMemoryUsage,
+    diskHandle: m.encryptedDiskActivity,
+    networkHandle: m.encryptedNetworkTraffic,
+    deviceId: Number(m.deviceId),
+    fleetId: Number(m.fleetId),
+    timestamp: Number(m.timestamp)
+  };
+}
+
+export async function fetchCrashReport(contract: ethers.Contract, id: number): Promise<CrashReportRecord> {
+  const c = await contract.crashReports(id);
+  return {
+    id,
+    errorCodeHandle: c.encryptedErrorCode,
+    memoryDumpHashHandle: c.encryptedMemoryDumpHash,
+    processIdHandle: c.encryptedProcessId,
+    deviceId: Number(c.deviceId),
+    fleetId: Number(c.fleetId),
+    isAnalyzed: c.isAnalyzed
+  };
+}
+
+// Flipped to true by the processCrash oracle callback, not by analyzeCrash itself
+export async function fetchCrashAnalysisStatus(contract: ethers.Contract, id: number): Promise<boolean> {
+  return contract.getCrashAnalysisStatus(id);
+}
+
+export async function fetchPerformanceAnalysis(contract: ethers.Contract, id: number): Promise<PerformanceAnalysisRecord> {
+  const a = await contract.performanceAnalyses(id);
+  return {
+    id,
+    avgCpuHandle: a.encryptedAvgCpu,
+    peakMemoryHandle: a.encryptedPeakMemory,
+    anomalyScoreHandle: a.encryptedAnomalyScore
+  };
+}
+
+export async function fetchFleets(contract: ethers.Contract): Promise<FleetRecord[]> {
+  const count = Number(await contract.fleetCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(async (id) => {
+    const f = await contract.fleets(id);
+    return { id, name: f.name, activeDevices: Number(f.activeDevices) };
+  }));
+}
+
+export async function fetchDevices(contract: ethers.Contract): Promise<DeviceRecord[]> {
+  const count = Number(await contract.deviceCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(async (id) => {
+    const d = await contract.devices(id);
+    return { id, key: d.key, fleetId: Number(d.fleetId), ownerCommitment: d.ownerCommitment, active: d.active };
+  }));
+}
+
+export async function fetchDeviceOwnership(
+  contract: ethers.Contract,
+  deviceId: number,
+  owner: string,
+  salt: string
+): Promise<boolean> {
+  return contract.isDeviceOwner(deviceId, owner, salt);
+}
+
+// Only the commitment goes on chain; whoever holds the salt can later prove ownership with isDeviceOwner
+export function ownerCommitment(owner: string, salt: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [owner, salt]));
+}
+
+export function deviceIdFromReceipt(receipt: ethers.TransactionReceipt | null): number | null {
+  const iface = new ethers.Interface(PRIVATE_OS_ABI);
+  for (const log of receipt?.logs ?? []) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "DeviceEnrolled") {
+      return Number(parsed.args.deviceId);
+    }
+  }
+  return null;
+}
+
+export function requestIdFromReceipt(receipt: ethers.TransactionReceipt | null): bigint | null {
+  const iface = new ethers.Interface(PRIVATE_OS_ABI);
+  for (const log of receipt?.logs ?? []) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "AnalysisRequested") {
+      return parsed.args.requestId;
+    }
+  }
+  return null;
+}
+
+// The homomorphic path completes in the requesting tx itself, so its receipt already has the analysis ID
+export function analysisIdFromReceipt(receipt: ethers.TransactionReceipt | null): number | null {
+  const iface = new ethers.Interface(PRIVATE_OS_ABI);
+  for (const log of receipt?.logs ?? []) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "AnalysisCompleted") {
+      return Number(parsed.args.analysisId);
+    }
+  }
+  return null;
+}
+
+// Shrinks as the enabled threshold rules add comparisons per sample
+export async function fetchMaxHomomorphicMetrics(contract: ethers.Contract): Promise<number> {
+  return Number(await contract.homomorphicMetricLimit());
+}
+
+export async function fetchRules(contract: ethers.Contract): Promise<AnomalyRuleRecord[]> {
+  const count = Number(await contract.ruleCount());
+  return Promise.all(Array.from({ length: count }, async (_, i) => {
+    const r = await contract.getRule(i + 1);
+    return {
+      id: i + 1,
+      name: r.name,
+      kind: Number(r.kind) === 0 ? "threshold" : "zscore",
+      fields: RULE_FIELDS.filter((_, bit) => (Number(r.fields) & (1 << bit)) !== 0),
+      matchAll: r.matchAll,
+      thresholds: Object.fromEntries(RULE_FIELDS.map((f, bit) => [f, Number(r.thresholds[bit])])) as Record<RuleField, number>,
+      deviations: Number(r.deviations),
+      window: Number(r.window),
+      enabled: r.enabled
+    };
+  }));
+}
+
+export async function fetchRecentAnomalies(contract: ethers.Contract, limit: number): Promise<AnomalyRecord[]> {
+  const logs = await queryRecentLogs(contract, contract.filters.AnomalyDetected(), limit);
+  return logs.reverse().map(log => {
+    const { metricId, ruleId, rule } = (log as ethers.EventLog).args;
+    return {
+      metricId: Number(metricId),
+      ruleId: Number(ruleId),
+      rule,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash
+    };
+  });
+}
+
+// Resolves to null until the metricChecked callback for a check sent at or after fromBlock has run
+export async function fetchMetricCheck(
+  contract: ethers.Contract,
+  metricId: number,
+  ruleId: number,
+  fromBlock: number
+): Promise<boolean | null> {
+  const logs = await queryLogs(contract, contract.filters.MetricChecked(metricId, ruleId), fromBlock);
+  const last = logs[logs.length - 1] as ethers.EventLog | undefined;
+  return last ? last.args.fired : null;
+}
+
+function toRuleTuple(rule: AnomalyRuleInput) {
+  return {
+    name: rule.name,
+    kind: rule.kind === "threshold" ? 0 : 1,
+    fields: rule.fields.reduce((mask, f) => mask | (1 << RULE_FIELDS.indexOf(f)), 0),
+    matchAll: rule.matchAll,
+    thresholds: RULE_FIELDS.map(f => rule.fields.includes(f) ? rule.thresholds[f] : 0),
+    deviations: rule.kind === "zscore" ? rule.deviations : 0,
+    window: rule.kind === "zscore" ? rule.window : 0,
+    enabled: rule.enabled
+  };
+}
+
+// Resolves to 0 until the calculatePerformance callback for this request has run
+export async function fetchAnalysisIdForRequest(contract: ethers.Contract, requestId: bigint): Promise<number> {
+  return Number(await contract.analysisByRequest(requestId));
+}
+
+// AnomalyDetected is emitted in the same callback tx as AnalysisCompleted, which ran at or after
+// fromBlock, the block the analysis was requested in
+export async function wasAnomalyDetected(
+  contract: ethers.Contract,
+  analysisId: number,
+  fromBlock: number
+): Promise<boolean> {
+  const [completed] = await queryLogs(contract, contract.filters.AnalysisCompleted(analysisId), fromBlock);
+  if (!completed) return false;
+
+  const anomalies = await contract.queryFilter(
+    contract.filters.AnomalyDetected(),
+    completed.blockNumber,
+    completed.blockNumber
+  );
+  return anomalies.some(log => log.transactionHash === completed.transactionHash);
+}
+
+// Only the analysis requester and viewers they added hold ACL access to these handles
+export async function decryptPerformanceAnalysis(analysis: PerformanceAnalysisRecord): Promise<DecryptedAnalysis> {
+  const contract = await getPrivateOSWithSigner();
+  const values = await userDecryptUint32(
+    requireContractAddress("privateOSFHEAddress"),
+    contract.runner as ethers.Signer,
+    [analysis.avgCpuHandle, analysis.peakMemoryHandle, analysis.anomalyScoreHandle]
+  );
+  return {
+    avgCpu: values[analysis.avgCpuHandle],
+    peakMemory: values[analysis.peakMemoryHandle],
+    anomalyScore: values[analysis.anomalyScoreHandle]
+  };
+}
+
+export async function submitSystemMetric(account: string, sample: SystemMetricSample) {
+  const encrypted = await encryptUint32(requireContractAddress("privateOSFHEAddress"), account, [
+    sample.cpuUsage,
+    sample.memoryUsage,
+    sample.diskActivity,
+    sample.networkTraffic
+  ]);
+  const contract = await getPrivateOSWithSigner();
+  return contract.submitSystemMetric(...encrypted.handles, encrypted.inputProof);
+}
+
+export async function reportCrash(account: string, sample: CrashSample) {
+  const encrypted = await encryptUint32(requireContractAddress("privateOSFHEAddress"), account, [
+    sample.errorCode,
+    sample.memoryDumpHash,
+    sample.processId
+  ]);
+  const contract = await getPrivateOSWithSigner();
+  return contract.reportCrash(...encrypted.handles, encrypted.inputProof);
+}
+
+export async function analyzePerformance(metricIds: number[]) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.analyzePerformance(metricIds);
+}
+
+export async function analyzePerformanceHomomorphic(metricIds: number[]) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.analyzePerformanceHomomorphic(metricIds);
+}
+
+export async function addAnalysisViewer(analysisId: number, viewer: string) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.addAnalysisViewer(analysisId, viewer);
+}
+
+export async function analyzeCrash(crashId: number) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.analyzeCrash(crashId);
+}
+
+export async function createFleet(name: string) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.createFleet(name);
+}
+
+export async function enrollDevice(key: string, fleetId: number, commitment: string = ethers.ZeroHash) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.enrollDevice(key, fleetId, commitment);
+}
+
+export async function moveDevice(deviceId: number, fleetId: number) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.moveDevice(deviceId, fleetId);
+}
+
+export async function retireDevice(deviceId: number) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.retireDevice(deviceId);
+}
+
+export async function grantRole(role: PrivateOSRole, account: string) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.grantRole(ROLE_IDS[role], account);
+}
+
+export async function revokeRole(role: PrivateOSRole, account: string) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.revokeRole(ROLE_IDS[role], account);
+}
+
+export async function grantMetricAccess(metricId: number, analyst: string) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.grantMetricAccess(metricId, analyst);
+}
+
+export async function addRule(rule: AnomalyRuleInput) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.addRule(toRuleTuple(rule));
+}
+
+export async function updateRule(ruleId: number, rule: AnomalyRuleInput) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.updateRule(ruleId, toRuleTuple(rule));
+}
+
+export async function setRuleEnabled(ruleId: number, enabled: boolean) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.setRuleEnabled(ruleId, enabled);
+}
+
+export async function checkMetric(metricId: number, ruleId: number) {
+  const contract = await getPrivateOSWithSigner();
+  return contract.checkMetric(metricId, ruleId);
+}
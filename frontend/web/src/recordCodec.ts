@@ -0,0 +1,112 @@
+// recordCodec.ts
+import { ethers } from "ethers";
+
+// Records written before versioning carry no `v` field and are treated as version 1
+export const METRIC_RECORD_VERSION = 2;
+
+const STATUSES = ["active", "inactive"] as const;
+
+export interface MetricRecord {
+  v: typeof METRIC_RECORD_VERSION;
+  metricType: string;
+  // euint32 handle; records from before real encryption hold an opaque string instead
+  data: string;
+  inputProof?: string;
+  timestamp: number;
+  owner: string;
+  status: (typeof STATUSES)[number];
+}
+
+export type RecordIssueKind = "malformed" | "foreign" | "unsupported-version" | "invalid";
+
+export interface RecordIssue {
+  id: string;
+  kind: RecordIssueKind;
+  reason: string;
+  // First bytes of the stored value, for telling apart what wrote it
+  preview: string;
+}
+
+export type DecodeResult =
+  | { ok: true; record: MetricRecord; migratedFrom: number | null }
+  | { ok: false; issue: RecordIssue };
+
+type Migration = (raw: Record<string, any>) => Record<string, any>;
+
+// migrations[n] turns a version n record into version n + 1
+const migrations: Record<number, Migration> = {
+  1: (raw) => ({ ...raw, v: 2, status: raw.status ?? "active" })
+};
+
+function validate(raw: Record<string, any>): string | null {
+  if (typeof raw.metricType !== "string" || raw.metricType.trim() === "") return "metricType must be a non-empty string";
+  if (typeof raw.data !== "string" || raw.data === "") return "data must be a non-empty string";
+  if (raw.inputProof !== undefined && !ethers.isHexString(raw.inputProof)) return "inputProof must be hex";
+  if (!Number.isInteger(raw.timestamp) || raw.timestamp <= 0) return "timestamp must be a positive integer";
+  if (typeof raw.owner !== "string" || !ethers.isAddress(raw.owner)) return "owner must be an address";
+  if (!STATUSES.includes(raw.status)) return `status must be one of ${STATUSES.join(", ")}`;
+  return null;
+}
+
+function preview(bytes: string): string {
+  try {
+    return ethers.toUtf8String(bytes).substring(0, 80);
+  } catch {
+    return ethers.dataSlice(bytes, 0, Math.min(32, ethers.dataLength(bytes)));
+  }
+}
+
+export function decodeMetricRecord(id: string, bytes: string): DecodeResult {
+  const fail = (kind: RecordIssueKind, reason: string): DecodeResult =>
+    ({ ok: false, issue: { id, kind, reason, preview: preview(bytes) } });
+
+  let raw: any;
+  try {
+    raw = JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e: any) {
+    return fail("malformed", `Not UTF-8 JSON: ${e.message}`);
+  }
+
+  // Other apps share the adapter; anything without the metric fields isn't ours
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw) || !("metricType" in raw)) {
+    return fail("foreign", "Not a metric record");
+  }
+
+  const version = raw.v ?? 1;
+  if (!Number.isInteger(version) || version < 1 || version > METRIC_RECORD_VERSION) {
+    return fail("unsupported-version", `Unknown record version ${version}`);
+  }
+
+  let migrated = raw;
+  for (let v = version; v < METRIC_RECORD_VERSION; v++) {
+    migrated = migrations[v](migrated);
+  }
+
+  const error = validate(migrated);
+  if (error) {
+    return fail("invalid", error);
+  }
+
+  return {
+    ok: true,
+    record: {
+      v: METRIC_RECORD_VERSION,
+      metricType: migrated.metricType,
+      data: migrated.data,
+      inputProof: migrated.inputProof,
+      timestamp: migrated.timestamp,
+      owner: migrated.owner,
+      status: migrated.status
+    },
+    migratedFrom: version === METRIC_RECORD_VERSION ? null : version
+  };
+}
+
+export function encodeMetricRecord(record: Omit<MetricRecord, "v">): Uint8Array {
+  const full = { ...record, v: METRIC_RECORD_VERSION };
+  const error = validate(full);
+  if (error) {
+    throw new Error(`Refusing to write invalid metric record: ${error}`);
+  }
+  return ethers.toUtf8Bytes(JSON.stringify(full));
+}
@@ -1,3 +0,0 @@
-import { useState, useEffect } from 'react';
-
-export default function profile() { return <div>Component</div>; }
@@ -0,0 +1,343 @@
+// rpc.ts
+import { ethers } from "ethers";
+import { activeNetwork, NetworkInfo } from "./networks";
+
+// Read-side RPC access, one manager per network. Endpoints come from the network registry or
+// VITE_RPC_URLS_<NETWORK> and are ranked by latency and recent error rate; every request goes to
+// the current best one and moves on to the next when a call fails, so a dead endpoint costs one
+// timeout rather than one per call.
+
+const REQUEST_TIMEOUT_MS = 5_000;
+// Weight of the newest sample in the moving averages
+const LATENCY_ALPHA = 0.3;
+const ERROR_ALPHA = 0.2;
+// An endpoint that just failed sits out this long before it is tried again
+const COOLDOWN_MS = 30_000;
+// Don't leave a working endpoint unless another is clearly better
+const SWITCH_MARGIN = 0.8;
+const DEGRADED_ERROR_RATE = 0.2;
+// How long the previous session's winner is trusted without waiting for a probe
+const WINNER_TTL_MS = 10 * 60_000;
+// JSON-RPC "limit exceeded", sent by public endpoints that throttle inside a 200 response
+const RATE_LIMITED = -32005;
+
+export type EndpointStatus = "unknown" | "healthy" | "degraded" | "down" | "wrong-chain";
+
+export interface EndpointHealth {
+  url: string;
+  // Host only, since paths and query strings often carry API keys
+  label: string;
+  status: EndpointStatus;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  lastError: string | null;
+  active: boolean;
+}
+
+interface Endpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  lastError: string | null;
+  retryAt: number;
+  chainChecked: boolean;
+  wrongChain: boolean;
+}
+
+interface CachedWinner {
+  url: string;
+  savedAt: number;
+}
+
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function envList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+// e.g. VITE_RPC_URLS_SEPOLIA for endpoints with API keys that don't belong in the registry
+function configuredUrls(network: NetworkInfo): string[] {
+  const fromEnv = envList(import.meta.env[`VITE_RPC_URLS_${network.key.toUpperCase()}`]);
+  return fromEnv.length > 0 ? fromEnv : network.rpcUrls;
+}
+
+// Routes every request of one ethers provider through the manager
+class ManagedProvider extends ethers.JsonRpcApiProvider {
+  constructor(private readonly manager: RpcManager, network: ethers.Network) {
+    super(network, { staticNetwork: network });
+  }
+
+  _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    return this.manager.send(payload);
+  }
+}
+
+export class RpcManager {
+  readonly provider: ethers.JsonRpcApiProvider;
+  private readonly network: ethers.Network;
+  private readonly endpoints: Endpoint[];
+  private readonly listeners = new Set<() => void>();
+  private active: Endpoint | null = null;
+  private probing: Promise<void> | null = null;
+
+  constructor(readonly chainId: number, urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+    this.network = ethers.Network.from(chainId);
+    this.endpoints = [...new Set(urls)].map(url => {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = REQUEST_TIMEOUT_MS;
+      return {
+        url,
+        provider: new ethers.JsonRpcProvider(request, this.network, { staticNetwork: this.network }),
+        latencyMs: null,
+        errorRate: 0,
+        requests: 0,
+        lastError: null,
+        retryAt: 0,
+        chainChecked: false,
+        wrongChain: false
+      };
+    });
+    this.provider = new ManagedProvider(this, this.network);
+  }
+
+  private get storageKey() {
+    return `privateosfhe.rpc.${this.chainId}`;
+  }
+
+  /**
+   * Resolves once there is an endpoint to use. The previous session's winner is used straight
+   * away if it is recent; otherwise this waits for the first probe of every endpoint.
+   */
+  async ready(): Promise<void> {
+    if (this.active) return;
+
+    const cached = this.loadWinner();
+    const winner = cached && this.endpoints.find(e => e.url === cached.url);
+    if (winner && Date.now() - cached.savedAt < WINNER_TTL_MS) {
+      this.setActive(winner);
+      void this.probeAll();
+      return;
+    }
+
+    await this.probeAll();
+    if (!this.active) {
+      throw new Error("All RPC endpoints failed");
+    }
+  }
+
+  /** Checks every endpoint concurrently and re-ranks them. */
+  probeAll(): Promise<void> {
+    if (!this.probing) {
+      this.probing = Promise.allSettled(this.endpoints.map(e => this.probe(e)))
+        .then(() => this.reselect())
+        .finally(() => {
+          this.probing = null;
+        });
+    }
+    return this.probing;
+  }
+
+  health(): EndpointHealth[] {
+    return this.endpoints.map(e => ({
+      url: e.url,
+      label: endpointLabel(e.url),
+      status: this.status(e),
+      latencyMs: e.latencyMs === null ? null : Math.round(e.latencyMs),
+      errorRate: e.errorRate,
+      requests: e.requests,
+      lastError: e.lastError,
+      active: e === this.active
+    }));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Sends a payload to the best endpoint, failing over to the others in score order. */
+  async send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    await this.ready();
+
+    let lastError: unknown = null;
+    for (const endpoint of this.candidates()) {
+      try {
+        const results = await this.call(endpoint, payload);
+        if (endpoint !== this.active) this.setActive(endpoint);
+        return results;
+      } catch (e) {
+        lastError = e;
+        if (endpoint === this.active) this.reselect();
+      }
+    }
+    throw lastError ?? new Error("All RPC endpoints failed");
+  }
+
+  private async call(endpoint: Endpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const started = performance.now();
+    try {
+      if (!endpoint.chainChecked) await this.checkChain(endpoint);
+      const results = await endpoint.provider._send(payload);
+      if (results.some(r => "error" in r && (r.error as { code?: number })?.code === RATE_LIMITED)) {
+        throw new Error("Rate limited");
+      }
+      this.recordSuccess(endpoint, performance.now() - started);
+      return results;
+    } catch (e) {
+      this.recordFailure(endpoint, e);
+      throw e;
+    }
+  }
+
+  private async probe(endpoint: Endpoint) {
+    if (endpoint.wrongChain) return;
+    try {
+      await this.call(endpoint, { id: 1, jsonrpc: "2.0", method: "eth_blockNumber", params: [] });
+    } catch {
+      // Recorded in the endpoint's stats
+    }
+  }
+
+  private async checkChain(endpoint: Endpoint) {
+    const [response] = await endpoint.provider._send({ id: 1, jsonrpc: "2.0", method: "eth_chainId", params: [] });
+    // An error or a garbled answer says nothing about the chain; the call fails like any other
+    // and the check is repeated once the endpoint's cooldown is over
+    if (response && "error" in response) {
+      const error = response.error as { code?: number; message?: string };
+      throw new Error(`eth_chainId failed: ${error?.message ?? error?.code}`);
+    }
+    const result: unknown = response?.result;
+    if (typeof result !== "string" || !/^0x[0-9a-f]+$/i.test(result)) {
+      throw new Error(`Malformed eth_chainId response: ${JSON.stringify(response)}`);
+    }
+
+    const chainId = Number(result);
+    endpoint.chainChecked = true;
+    if (chainId !== this.chainId) {
+      endpoint.wrongChain = true;
+      throw new Error(`Endpoint serves chain ${chainId}, expected ${this.chainId}`);
+    }
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    endpoint.requests++;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + LATENCY_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - ERROR_ALPHA;
+    endpoint.retryAt = 0;
+    this.notify();
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.requests++;
+    endpoint.errorRate += ERROR_ALPHA * (1 - endpoint.errorRate);
+    const message = (error as any)?.shortMessage ?? (error instanceof Error ? error.message : String(error));
+    endpoint.lastError = message.split(endpoint.url).join(endpointLabel(endpoint.url));
+    endpoint.retryAt = Date.now() + COOLDOWN_MS;
+    this.notify();
+  }
+
+  // Lower is better; endpoints never measured rank as if they had hit the timeout
+  private score(endpoint: Endpoint): number {
+    return (endpoint.latencyMs ?? REQUEST_TIMEOUT_MS) * (1 + 4 * endpoint.errorRate);
+  }
+
+  private status(endpoint: Endpoint): EndpointStatus {
+    if (endpoint.wrongChain) return "wrong-chain";
+    if (endpoint.retryAt > Date.now()) return "down";
+    if (endpoint.requests === 0) return "unknown";
+    return endpoint.errorRate > DEGRADED_ERROR_RATE ? "degraded" : "healthy";
+  }
+
+  // Active endpoint first, then the rest by score; cooling-down endpoints only as a last resort
+  private candidates(): Endpoint[] {
+    const now = Date.now();
+    const usable = this.endpoints.filter(e => !e.wrongChain);
+    const ready = usable.filter(e => e.retryAt <= now).sort((a, b) => this.score(a) - this.score(b));
+    const cooling = usable.filter(e => e.retryAt > now).sort((a, b) => a.retryAt - b.retryAt);
+    const ordered = [...ready, ...cooling];
+    if (this.active && ready.includes(this.active)) {
+      return [this.active, ...ordered.filter(e => e !== this.active)];
+    }
+    return ordered;
+  }
+
+  private reselect() {
+    const now = Date.now();
+    const best = this.endpoints
+      .filter(e => !e.wrongChain && e.retryAt <= now && e.latencyMs !== null)
+      .sort((a, b) => this.score(a) - this.score(b))[0];
+    if (!best) return;
+
+    const current = this.active;
+    const currentUsable = current && !current.wrongChain && current.retryAt <= now;
+    if (!currentUsable || this.score(best) < this.score(current) * SWITCH_MARGIN) {
+      this.setActive(best);
+    }
+  }
+
+  private setActive(endpoint: Endpoint) {
+    if (this.active !== endpoint) {
+      if (this.active) {
+        console.info(`Switching RPC endpoint from ${endpointLabel(this.active.url)} to ${endpointLabel(endpoint.url)}`);
+      }
+      this.active = endpoint;
+      this.saveWinner(endpoint);
+    }
+    this.notify();
+  }
+
+  private loadWinner(): CachedWinner | null {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveWinner(endpoint: Endpoint) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ url: endpoint.url, savedAt: Date.now() }));
+    } catch {
+      // Storage disabled; the winner is simply re-probed next session
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const managers = new Map<string, RpcManager>();
+
+export function getRpcManager(network: NetworkInfo = activeNetwork()): RpcManager {
+  let manager = managers.get(network.key);
+  if (!manager) {
+    manager = new RpcManager(network.chainId, configuredUrls(network));
+    managers.set(network.key, manager);
+  }
+  return manager;
+}
+
+/** The read provider of the selected network, once at least one endpoint has answered. */
+export async function getReadProvider(): Promise<ethers.Provider> {
+  const manager = getRpcManager();
+  await manager.ready();
+  return manager.provider;
+}
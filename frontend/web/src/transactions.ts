@@ -0,0 +1,406 @@
+// transactions.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import { activeNetwork, findNetwork, findNetworkByChainId } from "./networks";
+import { getRpcManager } from "./rpc";
+import { getSigner, subscribeWallet, walletSession } from "./wallet";
+
+// Every transaction the app sends goes through trackTransaction, which follows it until it is
+// final: confirmed, reverted or replaced by another transaction with the same nonce. Receipts are
+// polled through the network's managed read provider rather than the wallet, so tracking resumes
+// after a reload and keeps working when the wallet switches chains. History is kept per account.
+
+export type TxStatus = "submitted" | "mined" | "confirmed" | "reverted" | "replaced";
+
+export type TxKind = "original" | "speed-up" | "cancel";
+
+export interface TrackedTransaction {
+  hash: string;
+  label: string;
+  kind: TxKind;
+  networkKey: string;
+  from: string;
+  nonce: number;
+  // What was sent, so a speed-up can resend it under the same nonce. Amounts are decimal strings.
+  to: string | null;
+  data: string;
+  value: string;
+  gasLimit: string;
+  // EIP-1559 fees, or gasPrice alone on legacy chains
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  status: TxStatus;
+  blockNumber: number | null;
+  confirmations: number;
+  revertReason: string | null;
+  // Hash of the speed-up or cancel we sent for this transaction
+  replacedBy: string | null;
+  submittedAt: number;
+}
+
+/** Rejects trackTransaction when the transaction reverted or was replaced. */
+export class TransactionFailedError extends Error {
+  constructor(message: string, readonly transaction: TrackedTransaction) {
+    super(message);
+    this.name = "TransactionFailedError";
+  }
+}
+
+interface Waiter {
+  resolve: (receipt: ethers.TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+const STORAGE_PREFIX = "privateosfhe.transactions.";
+const POLL_INTERVAL_MS = 3_000;
+const HISTORY_LIMIT = 50;
+// Nodes only accept a replacement that raises both fees by at least 10%
+const FEE_BUMP_PERCENT = 125n;
+const CANCEL_GAS_LIMIT = 21_000n;
+// Covers require(..., "message") and panics in any contract, without its ABI
+const BUILTIN_ERRORS = new ethers.Interface([]);
+
+// Lowercased account -> its history, newest first
+const histories = new Map<string, TrackedTransaction[]>();
+const waiters = new Map<string, Waiter[]>();
+const receipts = new Map<string, ethers.TransactionReceipt>();
+// Contract interfaces for decoding custom errors; not persisted, require messages decode without them
+const interfaces = new Map<string, ethers.Interface>();
+const listeners = new Set<() => void>();
+const EMPTY: TrackedTransaction[] = [];
+let current = "";
+let snapshot: TrackedTransaction[] = EMPTY;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function storageKey(account: string): string {
+  return STORAGE_PREFIX + account;
+}
+
+function load(account: string): TrackedTransaction[] {
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(account: string) {
+  try {
+    localStorage.setItem(storageKey(account), JSON.stringify(histories.get(account) ?? []));
+  } catch {
+    // Storage disabled; history lasts for this page load
+  }
+}
+
+function historyOf(account: string): TrackedTransaction[] {
+  let history = histories.get(account);
+  if (!history) {
+    history = load(account);
+    histories.set(account, history);
+  }
+  return history;
+}
+
+function notify() {
+  snapshot = histories.get(current) ?? EMPTY;
+  listeners.forEach(listener => listener());
+}
+
+function isFinal(tx: TrackedTransaction): boolean {
+  return tx.status === "confirmed" || tx.status === "reverted" || tx.status === "replaced";
+}
+
+function find(hash: string): TrackedTransaction | undefined {
+  for (const history of histories.values()) {
+    const tx = history.find(t => t.hash === hash);
+    if (tx) return tx;
+  }
+  return undefined;
+}
+
+function add(tx: TrackedTransaction) {
+  const account = tx.from.toLowerCase();
+  const history = [tx, ...historyOf(account)];
+  // Drop the oldest finished entries first; pending ones are still being watched
+  while (history.length > HISTORY_LIMIT) {
+    const index = history.map(isFinal).lastIndexOf(true);
+    if (index < 0) break;
+    history.splice(index, 1);
+  }
+  histories.set(account, history);
+  save(account);
+  notify();
+  schedule();
+}
+
+function patch(hash: string, changes: Partial<TrackedTransaction>) {
+  for (const [account, history] of histories) {
+    if (!history.some(t => t.hash === hash)) continue;
+    histories.set(account, history.map(t => (t.hash === hash ? { ...t, ...changes } : t)));
+    save(account);
+    notify();
+    return;
+  }
+}
+
+function settle(hash: string, outcome: { receipt: ethers.TransactionReceipt } | { error: Error }) {
+  const pending = waiters.get(hash) ?? [];
+  waiters.delete(hash);
+  for (const waiter of pending) {
+    if ("receipt" in outcome) waiter.resolve(outcome.receipt);
+    else waiter.reject(outcome.error);
+  }
+}
+
+function waitFor(hash: string): Promise<ethers.TransactionReceipt> {
+  const receipt = receipts.get(hash);
+  if (receipt) return Promise.resolve(receipt);
+  return new Promise((resolve, reject) => {
+    waiters.set(hash, [...(waiters.get(hash) ?? []), { resolve, reject }]);
+  });
+}
+
+function pendingHashes(): string[] {
+  return [...histories.values()].flat().filter(tx => !isFinal(tx)).map(tx => tx.hash);
+}
+
+function schedule() {
+  if (timer || pendingHashes().length === 0) return;
+  timer = setTimeout(async () => {
+    await Promise.all(pendingHashes().map(hash => refresh(hash).catch(e => {
+      console.warn(`Could not refresh transaction ${hash}:`, e);
+    })));
+    timer = null;
+    schedule();
+  }, POLL_INTERVAL_MS);
+}
+
+async function refresh(hash: string) {
+  const tx = find(hash);
+  const network = tx && findNetwork(tx.networkKey);
+  if (!tx || !network) return;
+  const rpc = getRpcManager(network);
+  await rpc.ready();
+
+  const receipt = await rpc.provider.getTransactionReceipt(tx.hash);
+  if (receipt) {
+    receipts.set(tx.hash, receipt);
+    const confirmations = await receipt.confirmations();
+    if (receipt.status === 0) {
+      const revertReason = await replayRevert(rpc.provider, tx, receipt);
+      patch(tx.hash, { status: "reverted", blockNumber: receipt.blockNumber, confirmations, revertReason });
+      settle(tx.hash, { error: new TransactionFailedError(`${tx.label} reverted: ${revertReason}`, find(tx.hash)!) });
+      return;
+    }
+    const status: TxStatus = confirmations >= network.confirmations ? "confirmed" : "mined";
+    patch(tx.hash, { status, blockNumber: receipt.blockNumber, confirmations });
+    settle(tx.hash, { receipt });
+    return;
+  }
+
+  // No receipt, but the nonce is used up: another transaction took its place
+  const nonce = await rpc.provider.getTransactionCount(tx.from, "latest");
+  if (nonce <= tx.nonce) return;
+  // The receipt may have landed between the two calls; the next poll picks it up
+  if (await rpc.provider.getTransactionReceipt(tx.hash)) return;
+
+  patch(tx.hash, { status: "replaced" });
+  const replacement = tx.replacedBy ? find(tx.replacedBy) : undefined;
+  if (replacement?.kind === "speed-up") {
+    // Same call at a higher fee: whoever awaited the original gets the replacement's receipt
+    for (const waiter of waiters.get(tx.hash) ?? []) {
+      waitFor(replacement.hash).then(waiter.resolve, waiter.reject);
+    }
+    waiters.delete(tx.hash);
+    return;
+  }
+  const message = replacement?.kind === "cancel"
+    ? `${tx.label} was cancelled`
+    : `${tx.label} was replaced by another transaction from the wallet`;
+  settle(tx.hash, { error: new TransactionFailedError(message, find(tx.hash)!) });
+}
+
+// Receipts carry no revert data, so the call is replayed against the block it was mined in
+async function replayRevert(provider: ethers.Provider, tx: TrackedTransaction, receipt: ethers.TransactionReceipt): Promise<string> {
+  if (receipt.gasUsed === BigInt(tx.gasLimit)) {
+    return "out of gas";
+  }
+  try {
+    await provider.call({ from: tx.from, to: tx.to, data: tx.data, value: BigInt(tx.value), blockTag: receipt.blockNumber });
+  } catch (e) {
+    return revertReason(e, interfaces.get(tx.hash)) ?? "reverted without a reason";
+  }
+  return "reverted without a reason";
+}
+
+function revertData(error: any): string | null {
+  for (const candidate of [error?.data, error?.info?.error?.data, error?.error?.data, error?.data?.data]) {
+    if (typeof candidate === "string" && ethers.isHexString(candidate) && candidate.length > 2) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/** The contract's require message, panic or custom error behind a failed call, if it can be decoded. */
+export function revertReason(error: any, iface?: ethers.Interface): string | null {
+  const data = revertData(error);
+  if (data) {
+    for (const candidate of [iface, BUILTIN_ERRORS]) {
+      try {
+        const parsed = candidate?.parseError(data);
+        if (!parsed) continue;
+        if (parsed.name === "Error") return String(parsed.args[0]);
+        if (parsed.name === "Panic") return `panic 0x${BigInt(parsed.args[0]).toString(16)}`;
+        return `${parsed.name}(${parsed.args.map(String).join(", ")})`;
+      } catch {
+        // Not this interface's error
+      }
+    }
+  }
+  return typeof error?.reason === "string" ? error.reason : null;
+}
+
+/** One line for the user: rejected in the wallet, reverted with the contract's reason, or the raw message. */
+export function describeTransactionError(error: any, iface?: ethers.Interface): string {
+  if (ethers.isError(error, "ACTION_REJECTED") || error?.code === 4001) {
+    return "Transaction rejected in the wallet";
+  }
+  if (error instanceof TransactionFailedError) {
+    return error.message;
+  }
+  const reason = revertReason(error, iface);
+  if (reason) {
+    return `Reverted: ${reason}`;
+  }
+  return error?.shortMessage || error?.message || "Unknown error";
+}
+
+function record(tx: ethers.TransactionResponse, label: string, kind: TxKind): TrackedTransaction {
+  const network = findNetworkByChainId(Number(tx.chainId)) ?? activeNetwork();
+  return {
+    hash: tx.hash,
+    label,
+    kind,
+    networkKey: network.key,
+    from: tx.from,
+    nonce: tx.nonce,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value.toString(),
+    gasLimit: tx.gasLimit.toString(),
+    maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+    gasPrice: tx.maxFeePerGas === null ? tx.gasPrice.toString() : null,
+    status: "submitted",
+    blockNumber: null,
+    confirmations: 0,
+    revertReason: null,
+    replacedBy: null,
+    submittedAt: Date.now()
+  };
+}
+
+/**
+ * Adds a sent transaction to its account's history and resolves with the receipt once it is
+ * mined. If it was sped up, the replacement's receipt is returned instead. Rejects with a
+ * TransactionFailedError carrying the decoded reason when it reverts, or when it is cancelled
+ * or otherwise replaced. Confirmations keep being counted in the history after that.
+ */
+export function trackTransaction(
+  tx: ethers.TransactionResponse,
+  label: string,
+  iface?: ethers.Interface
+): Promise<ethers.TransactionReceipt> {
+  if (iface) interfaces.set(tx.hash, iface);
+  const receipt = waitFor(tx.hash);
+  add(record(tx, label, "original"));
+  return receipt;
+}
+
+function bump(value: string | null, floor: bigint | null): bigint {
+  const bumped = (BigInt(value ?? 0) * FEE_BUMP_PERCENT) / 100n + 1n;
+  return floor !== null && floor > bumped ? floor : bumped;
+}
+
+async function replace(hash: string, kind: "speed-up" | "cancel"): Promise<void> {
+  const tx = find(hash);
+  if (!tx || tx.status !== "submitted" || tx.replacedBy) {
+    throw new Error("Only a pending transaction can be sped up or cancelled, once");
+  }
+  const network = findNetwork(tx.networkKey)!;
+  if (network !== activeNetwork()) {
+    throw new Error(`Switch to ${network.name} to replace this transaction`);
+  }
+
+  const signer = await getSigner();
+  if (signer.address.toLowerCase() !== tx.from.toLowerCase()) {
+    throw new Error(`Switch the wallet to ${tx.from} to replace this transaction`);
+  }
+
+  // Never below what the network currently asks, so the replacement does not get stuck in turn
+  const fees = await signer.provider.getFeeData();
+  const pricing: ethers.TransactionRequest = tx.maxFeePerGas !== null
+    ? {
+        maxFeePerGas: bump(tx.maxFeePerGas, fees.maxFeePerGas),
+        maxPriorityFeePerGas: bump(tx.maxPriorityFeePerGas, fees.maxPriorityFeePerGas)
+      }
+    : { gasPrice: bump(tx.gasPrice, fees.gasPrice) };
+
+  // A cancel is an empty transfer to ourselves that takes the nonce away from the original
+  const call: ethers.TransactionRequest = kind === "cancel"
+    ? { to: tx.from, value: 0n, data: "0x", gasLimit: CANCEL_GAS_LIMIT }
+    : { to: tx.to, value: BigInt(tx.value), data: tx.data, gasLimit: BigInt(tx.gasLimit) };
+
+  const replacement = await signer.sendTransaction({ ...call, ...pricing, nonce: tx.nonce });
+  const iface = interfaces.get(hash);
+  if (iface) interfaces.set(replacement.hash, iface);
+  patch(hash, { replacedBy: replacement.hash });
+  add(record(replacement, `${kind === "cancel" ? "Cancel" : "Speed up"}: ${tx.label}`, kind));
+}
+
+/** Resends a pending transaction under its nonce with fees raised by a quarter. */
+export function speedUpTransaction(hash: string): Promise<void> {
+  return replace(hash, "speed-up");
+}
+
+/** Replaces a pending transaction with an empty transfer to the sender under the same nonce. */
+export function cancelTransaction(hash: string): Promise<void> {
+  return replace(hash, "cancel");
+}
+
+/** Removes the account's finished transactions from its history. */
+export function clearFinishedTransactions(): void {
+  const history = histories.get(current);
+  if (!history) return;
+  histories.set(current, history.filter(tx => !isFinal(tx)));
+  save(current);
+  notify();
+}
+
+export function transactionHistory(): TrackedTransaction[] {
+  return snapshot;
+}
+
+export function subscribeTransactions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useTransactions(): TrackedTransaction[] {
+  return useSyncExternalStore(subscribeTransactions, transactionHistory);
+}
+
+// The panel follows the connected account; pending transactions of earlier accounts stay watched
+subscribeWallet(() => {
+  const account = walletSession().account.toLowerCase();
+  if (account === current) return;
+  current = account;
+  if (account) historyOf(account);
+  notify();
+  schedule();
+});
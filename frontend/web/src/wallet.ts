@@ -0,0 +1,257 @@
+// wallet.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import { ensureWalletNetwork, findNetworkByChainId, selectNetwork } from "./networks";
+import { DiscoveredWallet, discoveredWallets, requestWallets, subscribeWallets } from "./walletDiscovery";
+
+// The one wallet session of the app. Everything that needs the account, chain or a signer reads
+// it from here, and only this module subscribes to the wallet's EIP-1193 events. The chosen
+// wallet is remembered so a reload reconnects without prompting.
+
+export type WalletStatus = "disconnected" | "connecting" | "connected";
+
+export interface WalletSession {
+  status: WalletStatus;
+  wallet: DiscoveredWallet | null;
+  // Checksummed, "" while disconnected
+  account: string;
+  chainId: number | null;
+  // Rebuilt on every chain change, since an ethers BrowserProvider is bound to one network
+  provider: ethers.BrowserProvider | null;
+  error: string | null;
+}
+
+// Remembered by rdns, since EIP-6963 uuids are regenerated on every page load
+interface RememberedWallet {
+  rdns: string;
+  name: string;
+}
+
+const STORAGE_KEY = "privateosfhe.wallet";
+// How long a reload waits for the remembered wallet to announce itself
+const RESTORE_TIMEOUT_MS = 1_000;
+
+const DISCONNECTED: WalletSession = {
+  status: "disconnected",
+  wallet: null,
+  account: "",
+  chainId: null,
+  provider: null,
+  error: null
+};
+
+let session: WalletSession = DISCONNECTED;
+const listeners = new Set<() => void>();
+// Removes the listeners attached to the current wallet's provider
+let detach: (() => void) | null = null;
+
+function update(patch: Partial<WalletSession>) {
+  session = { ...session, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+function remember(wallet: DiscoveredWallet | null) {
+  try {
+    if (wallet) {
+      const entry: RememberedWallet = { rdns: wallet.rdns, name: wallet.name };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entry));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage disabled; sessions just don't survive a reload
+  }
+}
+
+function remembered(): RememberedWallet | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function checksum(address: string | undefined): string {
+  return address ? ethers.getAddress(address) : "";
+}
+
+// Follow the wallet to another network the registry knows about
+function followChain(chainId: number) {
+  const network = findNetworkByChainId(chainId);
+  if (network) selectNetwork(network.key);
+}
+
+function attach(wallet: DiscoveredWallet) {
+  const ethereum = wallet.provider;
+
+  const onAccountsChanged = (accounts: string[]) => {
+    // An empty list means the wallet was locked or our permission revoked. The wallet stays
+    // remembered: after a lock eth_accounts answers again, after a revoke it stays empty.
+    if (accounts.length === 0) {
+      endSession();
+      return;
+    }
+    update({ account: checksum(accounts[0]) });
+  };
+
+  const onChainChanged = (chainIdHex: string) => {
+    const chainId = Number(chainIdHex);
+    update({ chainId, provider: new ethers.BrowserProvider(ethereum) });
+    followChain(chainId);
+  };
+
+  // EIP-1193 "disconnect": the wallet can no longer reach any chain
+  const onDisconnect = (error?: { message?: string }) => {
+    endSession();
+    if (error?.message) update({ error: error.message });
+  };
+
+  ethereum.on?.("accountsChanged", onAccountsChanged);
+  ethereum.on?.("chainChanged", onChainChanged);
+  ethereum.on?.("disconnect", onDisconnect);
+
+  detach = () => {
+    ethereum.removeListener?.("accountsChanged", onAccountsChanged);
+    ethereum.removeListener?.("chainChanged", onChainChanged);
+    ethereum.removeListener?.("disconnect", onDisconnect);
+  };
+}
+
+export function walletSession(): WalletSession {
+  return session;
+}
+
+export function subscribeWallet(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useWallet(): WalletSession {
+  return useSyncExternalStore(subscribeWallet, walletSession);
+}
+
+async function establish(wallet: DiscoveredWallet, accounts: string[]) {
+  const chainId = Number(await wallet.provider.request({ method: "eth_chainId" }));
+  attach(wallet);
+  remember(wallet);
+  update({
+    status: "connected",
+    account: checksum(accounts[0]),
+    chainId,
+    provider: new ethers.BrowserProvider(wallet.provider)
+  });
+}
+
+function endSession() {
+  detach?.();
+  detach = null;
+  update(DISCONNECTED);
+}
+
+/** Asks the wallet for account access and makes it the session's wallet. */
+export async function connectWallet(wallet: DiscoveredWallet): Promise<void> {
+  endSession();
+  update({ status: "connecting", wallet });
+
+  try {
+    const accounts: string[] = await wallet.provider.request({ method: "eth_requestAccounts" });
+    if (accounts.length === 0) {
+      throw new Error("The wallet returned no accounts");
+    }
+    await establish(wallet, accounts);
+  } catch (e: any) {
+    update({ ...DISCONNECTED, error: e.message || "Failed to connect wallet" });
+    throw e;
+  }
+}
+
+function waitForWallet(entry: RememberedWallet): Promise<DiscoveredWallet | null> {
+  // Wallets without EIP-6963 have no rdns and can only be the window.ethereum entry
+  const find = () => discoveredWallets().find(w => (entry.rdns ? w.rdns === entry.rdns : w.legacy)) ?? null;
+
+  return new Promise(resolve => {
+    let settled = false;
+    let unsubscribe = () => {};
+    const finish = (wallet: DiscoveredWallet | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(wallet);
+    };
+    const timer = setTimeout(() => finish(find()), RESTORE_TIMEOUT_MS);
+    unsubscribe = subscribeWallets(() => {
+      const wallet = find();
+      if (wallet) finish(wallet);
+    });
+    requestWallets();
+    const wallet = find();
+    if (wallet) finish(wallet);
+  });
+}
+
+/**
+ * Reconnects to the remembered wallet without a prompt, through eth_accounts. Resolves to
+ * whether a session was restored; a wallet that no longer grants access is forgotten.
+ */
+export async function restoreWalletSession(): Promise<boolean> {
+  const entry = remembered();
+  if (!entry || session.status !== "disconnected") return false;
+
+  update({ status: "connecting" });
+  try {
+    const wallet = await waitForWallet(entry);
+    if (!wallet) {
+      update(DISCONNECTED);
+      return false;
+    }
+    const accounts: string[] = await wallet.provider.request({ method: "eth_accounts" });
+    if (accounts.length === 0) {
+      remember(null);
+      update(DISCONNECTED);
+      return false;
+    }
+    update({ wallet });
+    await establish(wallet, accounts);
+    return true;
+  } catch (e: any) {
+    console.warn(`Could not restore the ${entry.name} session:`, e);
+    update(DISCONNECTED);
+    return false;
+  }
+}
+
+/**
+ * Ends the session and forgets the wallet. Where the wallet supports wallet_revokePermissions
+ * (EIP-2255) its account permission is revoked too, so the next connect prompts again.
+ */
+export async function disconnectWallet(): Promise<void> {
+  const wallet = session.wallet;
+  endSession();
+  remember(null);
+  if (!wallet) return;
+  try {
+    await wallet.provider.request({ method: "wallet_revokePermissions", params: [{ eth_accounts: {} }] });
+  } catch {
+    // Not supported by this wallet; it keeps the permission until the user removes it there
+  }
+}
+
+/** The connected wallet's EIP-1193 provider. */
+export function requireEthereum(): any {
+  if (session.status !== "connected" || !session.wallet) {
+    throw new Error("Connect a wallet first");
+  }
+  return session.wallet.provider;
+}
+
+/** A signer for the connected account, on the network selected in the app. */
+export async function getSigner(): Promise<ethers.JsonRpcSigner> {
+  const ethereum = requireEthereum();
+  await ensureWalletNetwork(ethereum);
+  // Fresh provider: chainChanged from the switch may not have been delivered yet
+  return new ethers.BrowserProvider(ethereum).getSigner(session.account);
+}
@@ -0,0 +1,92 @@
+// walletDiscovery.ts
+import { useEffect, useSyncExternalStore } from "react";
+
+// EIP-6963 discovery: every installed wallet announces its name, icon and own EIP-1193 provider,
+// so several extensions can coexist instead of racing to own window.ethereum.
+
+export interface Eip6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI supplied by the wallet itself
+  icon: string;
+  rdns: string;
+}
+
+export interface DiscoveredWallet extends Eip6963ProviderInfo {
+  provider: any;
+  // Found only as window.ethereum, from a wallet that predates EIP-6963
+  legacy: boolean;
+}
+
+interface AnnounceDetail {
+  info: Eip6963ProviderInfo;
+  provider: any;
+}
+
+export const GENERIC_WALLET_ICON =
+  "data:image/svg+xml;utf8," +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="#94a3b8" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">' +
+    '<path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1"/>' +
+    '<path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4"/></svg>'
+  );
+
+const announced = new Map<string, DiscoveredWallet>();
+const listeners = new Set<() => void>();
+let snapshot: DiscoveredWallet[] = [];
+let listening = false;
+
+function legacyName(ethereum: any): string {
+  if (ethereum.isMetaMask) return "MetaMask";
+  if (ethereum.isCoinbaseWallet) return "Coinbase Wallet";
+  if (ethereum.isOkxWallet) return "OKX Wallet";
+  if (ethereum.isTrust) return "Trust Wallet";
+  return "Browser Wallet";
+}
+
+// window.ethereum is only listed when nothing announced itself; otherwise it is almost always
+// one of the announced wallets and would show up twice
+function rebuild() {
+  const ethereum = (window as any).ethereum;
+  if (announced.size > 0) {
+    snapshot = [...announced.values()];
+  } else if (ethereum) {
+    snapshot = [{ uuid: "window.ethereum", name: legacyName(ethereum), icon: GENERIC_WALLET_ICON, rdns: "", provider: ethereum, legacy: true }];
+  } else {
+    snapshot = [];
+  }
+  listeners.forEach(listener => listener());
+}
+
+function onAnnounce(event: Event) {
+  const detail = (event as CustomEvent<AnnounceDetail>).detail;
+  if (!detail?.info?.uuid || !detail.provider) return;
+  announced.set(detail.info.uuid, { ...detail.info, provider: detail.provider, legacy: false });
+  rebuild();
+}
+
+/** Starts listening once, then asks every installed wallet to (re-)announce itself. */
+export function requestWallets(): void {
+  if (!listening) {
+    window.addEventListener("eip6963:announceProvider", onAnnounce);
+    listening = true;
+  }
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+  rebuild();
+}
+
+export function subscribeWallets(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function discoveredWallets(): DiscoveredWallet[] {
+  return snapshot;
+}
+
+export function useDiscoveredWallets(): DiscoveredWallet[] {
+  useEffect(requestWallets, []);
+  return useSyncExternalStore(subscribeWallets, discoveredWallets);
+}
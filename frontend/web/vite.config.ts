@@ -1,8 +1,15 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // networks.json at the repo root is shared with hardhat.config.ts, the role and
+      // rule-field tables in schema.ts with the node client
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../networks.json", "../../src/client/schema.ts"]
+    }
+  },
   define: {
     'process.env': process.env
   },
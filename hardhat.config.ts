@@ -1,7 +1,27 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import dotenv from "dotenv";
+import registry from "./networks.json";
+
+dotenv.config({ quiet: true });
+
+const accounts = process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [];
+
+// Every network in the shared registry (also read by the frontend) is deployable under the same
+// key. <KEY>_RPC_URL overrides the registry's first endpoint, e.g. SEPOLIA_RPC_URL.
+const registryNetworks: NetworksUserConfig = Object.fromEntries(
+  Object.entries(registry.networks).map(([key, network]) => [
+    key,
+    {
+      chainId: network.chainId,
+      url: process.env[`${key.toUpperCase()}_RPC_URL`] || network.rpcUrls[0],
+      // Mock chains are `npx hardhat node`, which signs with its own unlocked accounts
+      ...(network.fhevm === "mock" ? {} : { accounts }),
+    },
+  ])
+);
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,11 +29,7 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
-    },
+    ...registryNetworks,
   },
   solidity: {
     version: "0.8.24",
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\report\controller-endpoint.go
-// Generated at: 2025-10-13T13:07:23.668Z
\ No newline at end of file
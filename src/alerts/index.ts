@@ -0,0 +1,176 @@
+// src/alerts/index.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, JsonRpcProvider } from "ethers";
+import { envNumber, envString, requireEnv } from "../client/env";
+import { loadPrivateOSAbi } from "../client/privateOS";
+import { accepts, AlertSink, createSink, SinkConfig } from "./sinks";
+import { ALERT_EVENTS, Alert, AlertEngine, AlertEventKind, AlertRule, ChainEvent, DEFAULT_RULES } from "./rules";
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  sinks: SinkConfig[];
+}
+
+export interface AlertDaemonOptions {
+  privateOSAddress: string;
+  startBlock: number;
+  batchSize: number;
+  // Only alert on blocks this deep, so a reorg cannot retract an alert already sent
+  confirmations: number;
+  pollMs: number;
+  // Remembers the last processed block across restarts when set
+  cursorFile?: string;
+}
+
+export function loadAlertConfig(file?: string): AlertConfig {
+  if (!file) {
+    return { rules: DEFAULT_RULES, sinks: [{ type: "stdout" }] };
+  }
+
+  const config = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<AlertConfig>;
+  return { rules: config.rules ?? DEFAULT_RULES, sinks: config.sinks ?? [{ type: "stdout" }] };
+}
+
+export class AlertDaemon {
+  private readonly privateOS: ethers.Interface;
+  private readonly engine: AlertEngine;
+  private cursor: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    rules: AlertRule[],
+    private readonly sinks: AlertSink[],
+    private readonly options: AlertDaemonOptions,
+    abi: ethers.InterfaceAbi = loadPrivateOSAbi()
+  ) {
+    this.privateOS = new ethers.Interface(abi);
+    this.engine = new AlertEngine(rules);
+    if (options.cursorFile && fs.existsSync(options.cursorFile)) {
+      this.cursor = JSON.parse(fs.readFileSync(options.cursorFile, "utf8")).cursor;
+    }
+  }
+
+  start(): void {
+    const tick = () => this.poll().catch((error) => console.error("Alert poll failed:", error));
+    tick();
+    this.timer = setInterval(tick, this.options.pollMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Processes events up to the confirmed head and returns the alerts raised. */
+  async poll(): Promise<Alert[]> {
+    if (this.polling) return [];
+    this.polling = true;
+
+    try {
+      const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+      let from = this.cursor === null ? this.options.startBlock : this.cursor + 1;
+      const alerts: Alert[] = [];
+
+      while (from <= head) {
+        const to = Math.min(head, from + this.options.batchSize - 1);
+        for (const event of await this.fetchEvents(from, to)) {
+          for (const alert of this.engine.evaluate(event)) {
+            alerts.push(alert);
+            await this.dispatch(alert);
+          }
+        }
+        this.saveCursor(to);
+        from = to + 1;
+      }
+      return alerts;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async fetchEvents(from: number, to: number): Promise<ChainEvent[]> {
+    const topics = ALERT_EVENTS.map((name) => this.privateOS.getEvent(name)!.topicHash);
+    const logs = await this.provider.getLogs({
+      address: this.options.privateOSAddress,
+      fromBlock: from,
+      toBlock: to,
+      topics: [topics],
+    });
+
+    const timestamps = new Map<number, number>();
+    const events: ChainEvent[] = [];
+    for (const log of logs) {
+      const parsed = this.privateOS.parseLog(log);
+      if (!parsed) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        timestamps.set(log.blockNumber, (await this.provider.getBlock(log.blockNumber))!.timestamp);
+      }
+      events.push({
+        kind: parsed.name as AlertEventKind,
+        args: Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, String(parsed.args[i])])),
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        timestamp: timestamps.get(log.blockNumber)!,
+      });
+    }
+    return events;
+  }
+
+  // A failing sink is logged and skipped, so one dead webhook does not silence the others
+  private async dispatch(alert: Alert): Promise<void> {
+    for (const sink of this.sinks.filter((sink) => accepts(sink, alert))) {
+      try {
+        await sink.send(alert);
+      } catch (error: any) {
+        console.warn(`Alert sink ${sink.name} failed for ${alert.rule}:`, error.message || error);
+      }
+    }
+  }
+
+  private saveCursor(block: number): void {
+    this.cursor = block;
+    if (!this.options.cursorFile) return;
+
+    fs.mkdirSync(path.dirname(this.options.cursorFile), { recursive: true });
+    fs.writeFileSync(`${this.options.cursorFile}.tmp`, JSON.stringify({ cursor: block }));
+    fs.renameSync(`${this.options.cursorFile}.tmp`, this.options.cursorFile);
+  }
+}
+
+async function main() {
+  const provider = new JsonRpcProvider(envString("RPC_URL", "https://sepolia.drpc.org"));
+  const config = loadAlertConfig(process.env.ALERT_CONFIG || undefined);
+  const sinks = config.sinks.map(createSink);
+
+  const daemon = new AlertDaemon(provider, config.rules, sinks, {
+    privateOSAddress: requireEnv("PRIVATE_OS_ADDRESS"),
+    startBlock: envNumber("ALERT_START_BLOCK", await provider.getBlockNumber()),
+    batchSize: envNumber("ALERT_BATCH_SIZE", 2_000),
+    confirmations: envNumber("ALERT_CONFIRMATIONS", 2),
+    pollMs: envNumber("ALERT_POLL_MS", 12_000),
+    cursorFile: envString("ALERT_CURSOR", path.join(os.homedir(), ".privateosfhe", "alert-cursor.json")),
+  });
+
+  console.log(`Alerting on ${config.rules.length} rules through ${sinks.map((sink) => sink.name).join(", ")}`);
+  daemon.start();
+
+  const shutdown = () => {
+    daemon.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
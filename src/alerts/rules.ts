@@ -0,0 +1,145 @@
+// src/alerts/rules.ts
+export type AlertEventKind = "AnomalyDetected" | "CrashReported" | "AnalysisCompleted";
+
+export const ALERT_EVENTS: AlertEventKind[] = ["AnomalyDetected", "CrashReported", "AnalysisCompleted"];
+
+export type Severity = "info" | "warning" | "critical";
+
+export const SEVERITIES: Severity[] = ["info", "warning", "critical"];
+
+export interface ChainEvent {
+  kind: AlertEventKind;
+  args: Record<string, string>;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  // Block timestamp in seconds; windows run on chain time so replays and tests behave like live runs
+  timestamp: number;
+}
+
+export interface AlertRule {
+  name: string;
+  event: AlertEventKind;
+  severity: Severity;
+  // Fire once this many matching events land within windowMinutes; 1 alerts on every event
+  count: number;
+  windowMinutes: number;
+  // Only events whose args equal these values count, e.g. { "rule": "cpu-or-memory" }
+  match?: Record<string, string>;
+  // Keep a separate window per value of this event arg, e.g. "ruleId" or "deviceId"
+  groupBy?: string;
+  // Silence after firing, defaulting to the window, so one burst raises one alert
+  cooldownMinutes?: number;
+}
+
+export interface Alert {
+  rule: string;
+  severity: Severity;
+  event: AlertEventKind;
+  group: string | null;
+  count: number;
+  windowMinutes: number;
+  message: string;
+  firstSeen: number;
+  lastSeen: number;
+  blockNumber: number;
+  txHash: string;
+  // Position of the triggering log in its block; one tx can raise several alerts
+  logIndex: number;
+}
+
+export const DEFAULT_RULES: AlertRule[] = [
+  { name: "anomaly", event: "AnomalyDetected", severity: "warning", count: 1, windowMinutes: 0 },
+  { name: "repeated-crashes", event: "CrashReported", severity: "critical", count: 3, windowMinutes: 10 },
+  { name: "analysis-completed", event: "AnalysisCompleted", severity: "info", count: 1, windowMinutes: 0 },
+];
+
+export function atLeast(severity: Severity, minimum: Severity): boolean {
+  return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(minimum);
+}
+
+export function validateRule(rule: AlertRule): AlertRule {
+  const fail = (reason: string) => {
+    throw new Error(`Alert rule "${rule.name ?? "?"}": ${reason}`);
+  };
+
+  if (!rule.name) fail("name is required");
+  if (!ALERT_EVENTS.includes(rule.event)) fail(`event must be one of ${ALERT_EVENTS.join(", ")}`);
+  if (!SEVERITIES.includes(rule.severity)) fail(`severity must be one of ${SEVERITIES.join(", ")}`);
+  if (!Number.isInteger(rule.count) || rule.count < 1) fail("count must be a positive integer");
+  if (!(rule.windowMinutes >= 0)) fail("windowMinutes must be zero or more");
+  if (rule.count > 1 && rule.windowMinutes === 0) fail("a count above 1 needs a window");
+  if (rule.cooldownMinutes !== undefined && !(rule.cooldownMinutes >= 0)) fail("cooldownMinutes must be zero or more");
+  return rule;
+}
+
+export function describeEvent(event: ChainEvent): string {
+  switch (event.kind) {
+    case "AnomalyDetected":
+      return `rule "${event.args.rule}" (#${event.args.ruleId}) fired on metric #${event.args.metricId}`;
+    case "CrashReported":
+      return `crash #${event.args.crashId} reported by device #${event.args.deviceId}`;
+    case "AnalysisCompleted":
+      return `analysis #${event.args.analysisId} completed`;
+  }
+}
+
+/**
+ * Sliding-window rate rules over chain events. Events must be fed in chain order;
+ * state is in memory only, so a restarted daemon starts every window empty.
+ */
+export class AlertEngine {
+  // Timestamps of the matching events still inside each window, keyed by rule and group
+  private readonly windows = new Map<string, number[]>();
+  private readonly quietUntil = new Map<string, number>();
+
+  constructor(readonly rules: AlertRule[]) {
+    rules.forEach(validateRule);
+  }
+
+  evaluate(event: ChainEvent): Alert[] {
+    const alerts: Alert[] = [];
+    for (const rule of this.rules) {
+      if (rule.event !== event.kind || !this.matches(rule, event)) continue;
+
+      const group = rule.groupBy ? event.args[rule.groupBy] ?? "" : null;
+      const key = `${rule.name}:${group ?? ""}`;
+      const since = event.timestamp - rule.windowMinutes * 60;
+      const window = [...(this.windows.get(key) ?? []).filter((t) => t > since), event.timestamp];
+      this.windows.set(key, window);
+
+      if (window.length < rule.count || event.timestamp < (this.quietUntil.get(key) ?? 0)) continue;
+
+      this.windows.set(key, []);
+      this.quietUntil.set(key, event.timestamp + (rule.cooldownMinutes ?? rule.windowMinutes) * 60);
+      alerts.push(this.alert(rule, group, window, event));
+    }
+    return alerts;
+  }
+
+  private matches(rule: AlertRule, event: ChainEvent): boolean {
+    return Object.entries(rule.match ?? {}).every(([arg, value]) => event.args[arg] === String(value));
+  }
+
+  private alert(rule: AlertRule, group: string | null, window: number[], event: ChainEvent): Alert {
+    const message =
+      window.length === 1
+        ? `${rule.name}: ${describeEvent(event)}`
+        : `${rule.name}: ${window.length} ${event.kind} events within ${rule.windowMinutes} minutes` +
+          `${group === null ? "" : ` for ${rule.groupBy} ${group}`}, latest ${describeEvent(event)}`;
+    return {
+      rule: rule.name,
+      severity: rule.severity,
+      event: event.kind,
+      group,
+      count: window.length,
+      windowMinutes: rule.windowMinutes,
+      message,
+      firstSeen: window[0],
+      lastSeen: event.timestamp,
+      blockNumber: event.blockNumber,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+    };
+  }
+}
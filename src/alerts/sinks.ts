@@ -0,0 +1,128 @@
+// src/alerts/sinks.ts
+import fs from "fs";
+import path from "path";
+import { Alert, atLeast, Severity } from "./rules";
+
+export interface AlertSink {
+  readonly name: string;
+  // Alerts below this severity are not sent to the sink
+  readonly minSeverity: Severity;
+  send(alert: Alert): Promise<void>;
+}
+
+export type SinkConfig = { minSeverity?: Severity } & (
+  | { type: "stdout" }
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+  | { type: "smtp"; dir: string; from: string; to: string[] }
+  | { type: "file"; path: string }
+);
+
+export function accepts(sink: AlertSink, alert: Alert): boolean {
+  return atLeast(alert.severity, sink.minSeverity);
+}
+
+export class StdoutSink implements AlertSink {
+  readonly name = "stdout";
+
+  constructor(readonly minSeverity: Severity = "info") {}
+
+  async send(alert: Alert): Promise<void> {
+    console.log(`[${alert.severity.toUpperCase()}] ${new Date(alert.lastSeen * 1000).toISOString()} ${alert.message}`);
+  }
+}
+
+export class WebhookSink implements AlertSink {
+  readonly name: string;
+
+  constructor(
+    private readonly url: string,
+    readonly minSeverity: Severity = "info",
+    private readonly headers: Record<string, string> = {}
+  ) {
+    this.name = `webhook ${new URL(url).host}`;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify(alert),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Stand-in for an SMTP relay: writes each alert as an RFC 5322 message into a pickup
+ * directory, which a local MTA or a test can collect.
+ */
+export class MailDropSink implements AlertSink {
+  readonly name: string;
+
+  constructor(
+    private readonly dir: string,
+    private readonly from: string,
+    private readonly to: string[],
+    readonly minSeverity: Severity = "warning"
+  ) {
+    this.name = `smtp ${dir}`;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const message = [
+      `From: ${this.from}`,
+      `To: ${this.to.join(", ")}`,
+      `Subject: [PrivateOSFHE ${alert.severity}] ${alert.rule}`,
+      `Date: ${new Date(alert.lastSeen * 1000).toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      alert.message,
+      "",
+      `Block ${alert.blockNumber}, tx ${alert.txHash}`,
+      "",
+    ].join("\r\n");
+
+    // Write then rename, so a collector never picks up half a message
+    // Rule names come from configuration and may hold path separators or dots
+    const rule = alert.rule.replace(/[^A-Za-z0-9_-]/g, "_");
+    const name = `${alert.lastSeen}-${rule}-${alert.txHash.slice(2, 10)}-${alert.logIndex}.eml`;
+    const file = path.join(this.dir, name);
+    fs.writeFileSync(`${file}.tmp`, message);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
+
+// One JSON alert per line
+export class FileSink implements AlertSink {
+  readonly name: string;
+
+  constructor(
+    private readonly file: string,
+    readonly minSeverity: Severity = "info"
+  ) {
+    this.name = `file ${file}`;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  async send(alert: Alert): Promise<void> {
+    fs.appendFileSync(this.file, JSON.stringify(alert) + "\n");
+  }
+}
+
+export function createSink(config: SinkConfig): AlertSink {
+  switch (config.type) {
+    case "stdout":
+      return new StdoutSink(config.minSeverity);
+    case "webhook":
+      return new WebhookSink(config.url, config.minSeverity, config.headers);
+    case "smtp":
+      return new MailDropSink(config.dir, config.from, config.to, config.minSeverity);
+    case "file":
+      return new FileSink(config.path, config.minSeverity);
+    default:
+      throw new Error(`Unknown alert sink type "${(config as { type: string }).type}"`);
+  }
+}
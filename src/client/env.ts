@@ -0,0 +1,27 @@
+// src/client/env.ts
+import dotenv from "dotenv";
+
+dotenv.config({ quiet: true });
+
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+}
+
+export function envString(name: string, fallback: string): string {
+  return process.env[name] || fallback;
+}
+
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Environment variable ${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
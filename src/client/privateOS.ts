@@ -0,0 +1,316 @@
+// src/client/privateOS.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/node";
+import { IACL__factory } from "../../types";
+import { AnomalyRuleKind, PrivateOSRole, ROLE_IDS, RULE_FIELDS, RuleField } from "./schema";
+
+export * from "./schema";
+
+export const UINT32_MAX = 4294967295;
+
+// Both the relayer SDK instance and hardhat's `hre.fhevm` mock satisfy this shape,
+// so the same client runs against Sepolia and the local hardhat network.
+export interface InputEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput;
+}
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface SystemMetricSample {
+  cpuUsage: number;
+  memoryUsage: number;
+  diskActivity: number;
+  networkTraffic: number;
+}
+
+export interface CrashSample {
+  errorCode: number;
+  memoryDumpHash: number;
+  processId: number;
+}
+
+// Mirrors PrivateOSFHE.AnomalyRule with the fields bitmask expanded; thresholds are indexed like RULE_FIELDS
+export interface AnomalyRule {
+  id: number;
+  name: string;
+  kind: AnomalyRuleKind;
+  fields: RuleField[];
+  matchAll: boolean;
+  thresholds: number[];
+  deviations: number;
+  window: number;
+  enabled: boolean;
+}
+
+export interface FleetInfo {
+  id: number;
+  name: string;
+  activeDevices: number;
+}
+
+// The registry holds no owner, only an optional commitment to one
+export interface DeviceInfo {
+  id: number;
+  key: string;
+  fleetId: number;
+  ownerCommitment: string;
+  active: boolean;
+}
+
+// Whoever enrolls a device keeps the salt and hands it to the owner, who alone can then prove the link
+export function ownerCommitment(owner: string, salt: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [owner, salt]));
+}
+
+export function loadPrivateOSAbi(projectRoot: string = path.join(__dirname, "..", "..")): ethers.InterfaceAbi {
+  const artifactPath = path.join(projectRoot, "artifacts", "contracts", "PrivateOSFHE.sol", "PrivateOSFHE.json");
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`PrivateOSFHE artifact not found at ${artifactPath}, run "npm run compile" first`);
+  }
+  return JSON.parse(fs.readFileSync(artifactPath, "utf8")).abi;
+}
+
+export async function createRelayerEncryptor(network: string): Promise<InputEncryptor> {
+  const { createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/node");
+  return createInstance({ ...SepoliaConfig, network });
+}
+
+// ethers reports reverts from a JSON-RPC node as CALL_EXCEPTION; hardhat's in-process network throws its own error
+export function isRevert(error: unknown): boolean {
+  return ethers.isError(error, "CALL_EXCEPTION") || (error instanceof Error && /\breverted\b/.test(error.message));
+}
+
+export function toUint32(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  return Math.min(Math.round(value), UINT32_MAX);
+}
+
+export class PrivateOSClient {
+  readonly contract: ethers.Contract;
+
+  constructor(
+    readonly address: string,
+    private readonly signer: ethers.Signer,
+    private readonly encryptor: InputEncryptor,
+    abi: ethers.InterfaceAbi = loadPrivateOSAbi()
+  ) {
+    this.contract = new ethers.Contract(address, abi, signer);
+  }
+
+  async encrypt(values: number[]): Promise<EncryptedInputs> {
+    const input = this.encryptor.createEncryptedInput(this.address, await this.signer.getAddress());
+    for (const value of values) {
+      input.add32(toUint32(value));
+    }
+
+    const { handles, inputProof } = await input.encrypt();
+    return {
+      handles: handles.map((handle) => ethers.hexlify(handle)),
+      inputProof: ethers.hexlify(inputProof),
+    };
+  }
+
+  async hasRole(role: PrivateOSRole, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLE_IDS[role], account);
+  }
+
+  // Fails fast instead of letting every submission revert with "Missing role"
+  async requireRole(role: PrivateOSRole): Promise<void> {
+    const account = await this.signer.getAddress();
+    if (!(await this.hasRole(role, account))) {
+      const remedy = role === "device" ? "ask an admin to enroll this key" : "ask an admin to grant it";
+      throw new Error(`${account} lacks the ${role} role on PrivateOSFHE at ${this.address}, ${remedy}`);
+    }
+  }
+
+  async grantRole(role: PrivateOSRole, account: string): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.grantRole(ROLE_IDS[role], account);
+    return tx.wait();
+  }
+
+  async revokeRole(role: PrivateOSRole, account: string): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.revokeRole(ROLE_IDS[role], account);
+    return tx.wait();
+  }
+
+  async createFleet(name: string): Promise<{ receipt: ethers.ContractTransactionReceipt; fleetId: number }> {
+    const tx = await this.contract.createFleet(name);
+    const receipt: ethers.ContractTransactionReceipt = await tx.wait();
+    return { receipt, fleetId: Number(this.eventArgs(receipt, "FleetCreated").fleetId) };
+  }
+
+  // Without an owner the commitment stays zero and the device cannot be tied to anyone later
+  async enrollDevice(
+    key: string,
+    fleetId: number,
+    owner?: { address: string; salt: string }
+  ): Promise<{ receipt: ethers.ContractTransactionReceipt; deviceId: number }> {
+    const commitment = owner ? ownerCommitment(owner.address, owner.salt) : ethers.ZeroHash;
+    const tx = await this.contract.enrollDevice(key, fleetId, commitment);
+    const receipt: ethers.ContractTransactionReceipt = await tx.wait();
+    return { receipt, deviceId: Number(this.eventArgs(receipt, "DeviceEnrolled").deviceId) };
+  }
+
+  async moveDevice(deviceId: number, fleetId: number): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.moveDevice(deviceId, fleetId);
+    return tx.wait();
+  }
+
+  async retireDevice(deviceId: number): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.retireDevice(deviceId);
+    return tx.wait();
+  }
+
+  /** The device ID enrolled for a key, the signer's by default, or 0. */
+  async deviceId(key?: string): Promise<number> {
+    return Number(await this.contract.deviceIdOf(key ?? (await this.signer.getAddress())));
+  }
+
+  async getFleets(): Promise<FleetInfo[]> {
+    const count = Number(await this.contract.fleetCount());
+    return Promise.all(
+      Array.from({ length: count }, async (_, i) => {
+        const fleet = await this.contract.fleets(i + 1);
+        return { id: i + 1, name: fleet.name, activeDevices: Number(fleet.activeDevices) };
+      })
+    );
+  }
+
+  async getDevices(fleetId?: number): Promise<DeviceInfo[]> {
+    const count = Number(await this.contract.deviceCount());
+    const devices = await Promise.all(
+      Array.from({ length: count }, async (_, i) => {
+        const device = await this.contract.devices(i + 1);
+        return {
+          id: i + 1,
+          key: device.key,
+          fleetId: Number(device.fleetId),
+          ownerCommitment: device.ownerCommitment,
+          active: device.active,
+        };
+      })
+    );
+    return fleetId === undefined ? devices : devices.filter((device) => device.fleetId === fleetId);
+  }
+
+  // By the fleet recorded at submission, oldest first
+  async fleetMetricIds(fleetId: number, fromBlock = 0): Promise<number[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.MetricCollected(null, null, fleetId), fromBlock);
+    return logs.map((log) => Number((log as ethers.EventLog).args.metricId));
+  }
+
+  // Aggregates the fleet's newest metrics, as many as one homomorphic analysis takes under the current rules
+  async analyzeFleet(
+    fleetId: number,
+    fromBlock = 0
+  ): Promise<{ receipt: ethers.ContractTransactionReceipt; analysisId: number; metricIds: number[] }> {
+    const limit = Number(await this.contract.homomorphicMetricLimit());
+    const metricIds = (await this.fleetMetricIds(fleetId, fromBlock)).slice(-limit);
+    if (metricIds.length === 0) {
+      throw new Error(`Fleet ${fleetId} has no metrics to analyze`);
+    }
+    return { ...(await this.analyzePerformanceHomomorphic(metricIds)), metricIds };
+  }
+
+  async grantMetricAccess(metricId: number, analyst: string): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.grantMetricAccess(metricId, analyst);
+    return tx.wait();
+  }
+
+  // Read from the ACL itself, so grants made outside this contract count too
+  async hasMetricAccess(metricId: number, account: string): Promise<boolean> {
+    const acl = IACL__factory.connect(await this.contract.aclAddress(), this.signer);
+    const metric = await this.contract.systemMetrics(metricId);
+    const handles = [
+      metric.encryptedCpuUsage,
+      metric.encryptedMemoryUsage,
+      metric.encryptedDiskActivity,
+      metric.encryptedNetworkTraffic,
+    ];
+    const allowed = await Promise.all(handles.map((handle) => acl.isAllowed(handle, account)));
+    return allowed.every(Boolean);
+  }
+
+  // Aggregates are computed over the ciphertexts and stay encrypted; only this signer can decrypt them
+  async analyzePerformanceHomomorphic(
+    metricIds: number[]
+  ): Promise<{ receipt: ethers.ContractTransactionReceipt; analysisId: number }> {
+    const tx = await this.contract.analyzePerformanceHomomorphic(metricIds);
+    const receipt: ethers.ContractTransactionReceipt = await tx.wait();
+    return { receipt, analysisId: Number(this.eventArgs(receipt, "AnalysisCompleted").analysisId) };
+  }
+
+  async getRules(): Promise<AnomalyRule[]> {
+    const count = Number(await this.contract.ruleCount());
+    return Promise.all(
+      Array.from({ length: count }, async (_, i) => {
+        const rule = await this.contract.getRule(i + 1);
+        return {
+          id: i + 1,
+          name: rule.name,
+          kind: Number(rule.kind) === 0 ? "threshold" : "zscore",
+          fields: RULE_FIELDS.filter((_, bit) => (Number(rule.fields) & (1 << bit)) !== 0),
+          matchAll: rule.matchAll,
+          thresholds: rule.thresholds.map(Number),
+          deviations: Number(rule.deviations),
+          window: Number(rule.window),
+          enabled: rule.enabled,
+        } satisfies AnomalyRule;
+      })
+    );
+  }
+
+  // Only the verdict is decrypted; it arrives later through MetricChecked and, if the rule fired, AnomalyDetected
+  async checkMetric(metricId: number, ruleId: number): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.contract.checkMetric(metricId, ruleId);
+    return tx.wait();
+  }
+
+  async submitSystemMetric(sample: SystemMetricSample): Promise<ethers.ContractTransactionReceipt> {
+    const { handles, inputProof } = await this.encrypt([
+      sample.cpuUsage,
+      sample.memoryUsage,
+      sample.diskActivity,
+      sample.networkTraffic,
+    ]);
+    const tx = await this.contract.submitSystemMetric(...handles, inputProof);
+    return tx.wait();
+  }
+
+  async reportCrash(sample: CrashSample): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await this.sendCrashReport(sample);
+    return (await tx.wait())!;
+  }
+
+  // Returns once broadcast, so callers can persist the hash before waiting on a receipt that may never arrive
+  async sendCrashReport(sample: CrashSample): Promise<ethers.ContractTransactionResponse> {
+    const { handles, inputProof } = await this.encrypt([sample.errorCode, sample.memoryDumpHash, sample.processId]);
+    return this.contract.reportCrash(...handles, inputProof);
+  }
+
+  /** "unknown" means the node has never seen the tx or has dropped it, so it is safe to send again. */
+  async transactionStatus(hash: string): Promise<"mined" | "reverted" | "pending" | "unknown"> {
+    const provider = this.signer.provider;
+    if (!provider) throw new Error("Signer has no provider");
+
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) return receipt.status === 1 ? "mined" : "reverted";
+    return (await provider.getTransaction(hash)) ? "pending" : "unknown";
+  }
+
+  private eventArgs(receipt: ethers.ContractTransactionReceipt, name: string): ethers.Result {
+    const event = receipt.logs
+      .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+      .map((log) => this.contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === name);
+    if (!event) {
+      throw new Error(`${name} event missing from receipt ${receipt.hash}`);
+    }
+    return event.args;
+  }
+}
@@ -0,0 +1,22 @@
+// src/client/schema.ts
+// Role and rule-field tables shared by this client and the dashboard, which imports this file
+// from frontend/web. It imports nothing, so the dashboard bundle pulls in no node dependencies.
+
+// Devices submit telemetry and crashes, analysts request analyses and decryptions, admins manage both
+export type PrivateOSRole = "admin" | "analyst" | "device";
+
+export const ROLES: readonly PrivateOSRole[] = ["admin", "analyst", "device"];
+
+// keccak256 of the role constant names in PrivateOSFHE
+export const ROLE_IDS: Readonly<Record<PrivateOSRole, string>> = {
+  admin: "0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775",
+  analyst: "0x708c6b3a1a43063fcff2ed11fff0d3410f7a7ac561e651ec7a63ecde338f7672",
+  device: "0x48404ec5122cfef2c4b0b727fa211cfb1e815e1b19d5c56f7d3cc0c616120a28",
+};
+
+export type AnomalyRuleKind = "threshold" | "zscore";
+
+// Bit i of a rule's fields mask selects RULE_FIELDS[i]; named like the telemetry sample fields
+export const RULE_FIELDS = ["cpuUsage", "memoryUsage", "diskActivity", "networkTraffic"] as const;
+
+export type RuleField = (typeof RULE_FIELDS)[number];
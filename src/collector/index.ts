@@ -0,0 +1,157 @@
+// src/collector/index.ts
+import os from "os";
+import path from "path";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { envNumber, envString, requireEnv } from "../client/env";
+import { createRelayerEncryptor, isRevert, PrivateOSClient, SystemMetricSample } from "../client/privateOS";
+import { ProcSnapshot, readSnapshot, toSample } from "./procfs";
+import { Spool } from "./spool";
+
+export interface SpooledSample extends SystemMetricSample {
+  collectedAt: number;
+}
+
+export interface CollectorOptions {
+  intervalMs: number;
+  batchSize: number;
+  procRoot: string;
+  spoolFile: string;
+  // Samples the contract reverts are moved here when set, otherwise dropped
+  quarantineFile?: string;
+}
+
+export class TelemetryCollector {
+  private readonly spool: Spool<SpooledSample>;
+  private readonly quarantine: Spool<SpooledSample> | null;
+  private previous: ProcSnapshot | null = null;
+  private pending: SpooledSample[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<number> | null = null;
+  private stopping = false;
+
+  constructor(
+    private readonly client: PrivateOSClient,
+    private readonly options: CollectorOptions
+  ) {
+    this.spool = new Spool<SpooledSample>(options.spoolFile);
+    this.quarantine = options.quarantineFile ? new Spool<SpooledSample>(options.quarantineFile) : null;
+  }
+
+  start(): void {
+    // The first snapshot only primes the counters, rates need two readings
+    this.collect();
+    this.timer = setInterval(() => this.collect(), this.options.intervalMs);
+  }
+
+  /** Stops collecting; a running flush finishes its current sample and spools the rest first. */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stopping = true;
+    await this.flushing;
+    this.spool.append(this.pending);
+    this.pending = [];
+  }
+
+  collect(): void {
+    try {
+      const current = readSnapshot(this.options.procRoot);
+      if (this.previous) {
+        this.pending.push({ ...toSample(this.previous, current), collectedAt: current.takenAt });
+      }
+      this.previous = current;
+    } catch (error) {
+      console.error("Failed to read /proc counters:", error);
+      return;
+    }
+
+    if (this.pending.length >= this.options.batchSize) {
+      this.flush().catch((error) => console.error("Flush failed:", error));
+    }
+  }
+
+  /**
+   * Submits spooled samples (oldest first) and then the current batch.
+   * A sample the contract reverts is quarantined so it cannot block the queue; whatever is
+   * left when the chain stops answering goes back to the spool for the next flush.
+   */
+  flush(): Promise<number> {
+    if (this.flushing) return Promise.resolve(0);
+    this.flushing = this.submitQueue().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async submitQueue(): Promise<number> {
+    const queue = [...this.spool.read(), ...this.pending];
+    this.pending = [];
+    const rejected: SpooledSample[] = [];
+    let submitted = 0;
+    let handled = 0;
+    try {
+      for (const sample of queue) {
+        if (this.stopping) break;
+        const collectedAt = new Date(sample.collectedAt).toISOString();
+        try {
+          const receipt = await this.client.submitSystemMetric(sample);
+          submitted++;
+          console.log(`Submitted sample from ${collectedAt} in tx ${receipt.hash}`);
+        } catch (error) {
+          if (!isRevert(error)) throw error;
+          // Retrying cannot help, e.g. once this device is retired
+          rejected.push(sample);
+          console.warn(`Contract rejected sample from ${collectedAt}:`, (error as Error).message);
+        }
+        handled++;
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`Chain unreachable, spooling ${queue.length - handled} samples:`, reason);
+    } finally {
+      this.quarantine?.append(rejected);
+      this.spool.replace(queue.slice(handled));
+    }
+    return submitted;
+  }
+}
+
+async function main() {
+  const rpcUrl = envString("RPC_URL", "https://sepolia.drpc.org");
+  const provider = new JsonRpcProvider(rpcUrl);
+  const wallet = new Wallet(requireEnv("PRIVATE_KEY"), provider);
+  const client = new PrivateOSClient(
+    requireEnv("PRIVATE_OS_ADDRESS"),
+    wallet,
+    await createRelayerEncryptor(rpcUrl)
+  );
+
+  await client.requireRole("device");
+
+  const collector = new TelemetryCollector(client, {
+    intervalMs: envNumber("COLLECTOR_INTERVAL_MS", 60_000),
+    batchSize: envNumber("COLLECTOR_BATCH_SIZE", 5),
+    procRoot: envString("PROC_ROOT", "/proc"),
+    spoolFile: envString("COLLECTOR_SPOOL", path.join(os.homedir(), ".privateosfhe", "collector-spool.jsonl")),
+    quarantineFile: envString(
+      "COLLECTOR_QUARANTINE",
+      path.join(os.homedir(), ".privateosfhe", "collector-rejected.jsonl")
+    ),
+  });
+
+  console.log(`Collecting telemetry as ${wallet.address} for PrivateOSFHE at ${client.address}`);
+  collector.start();
+
+  const shutdown = () => {
+    collector.stop().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,104 @@
+// src/collector/procfs.ts
+import fs from "fs";
+import path from "path";
+import type { SystemMetricSample } from "../client/privateOS";
+
+const SECTOR_BYTES = 512;
+
+// Whole-disk devices only: partitions would double count, loop/ram/device-mapper are not physical I/O
+const IGNORED_DISK = /^(loop|ram|zram|dm-|sr)\d*/;
+const PARTITION = /^((sd|hd|vd|xvd)[a-z]+\d+|(nvme\d+n\d+|mmcblk\d+)p\d+)$/;
+
+export interface ProcSnapshot {
+  takenAt: number;
+  cpuBusy: number;
+  cpuTotal: number;
+  memTotalKb: number;
+  memAvailableKb: number;
+  diskSectors: number;
+  netBytes: number;
+}
+
+function readProcFile(procRoot: string, name: string): string {
+  return fs.readFileSync(path.join(procRoot, name), "utf8");
+}
+
+export function parseCpu(stat: string): { busy: number; total: number } {
+  const line = stat.split("\n").find((l) => l.startsWith("cpu "));
+  if (!line) throw new Error("No aggregate cpu line in /proc/stat");
+
+  // user nice system idle iowait irq softirq steal [guest guest_nice, already included in user/nice]
+  const fields = line.trim().split(/\s+/).slice(1, 9).map(Number);
+  const total = fields.reduce((sum, value) => sum + value, 0);
+  const idle = fields[3] + (fields[4] || 0);
+  return { busy: total - idle, total };
+}
+
+export function parseMeminfo(meminfo: string): { totalKb: number; availableKb: number } {
+  const values: Record<string, number> = {};
+  for (const line of meminfo.split("\n")) {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) values[match[1]] = Number(match[2]);
+  }
+  if (!values.MemTotal) throw new Error("No MemTotal in /proc/meminfo");
+
+  // MemAvailable is missing on pre-3.14 kernels
+  const availableKb = values.MemAvailable ?? (values.MemFree || 0) + (values.Buffers || 0) + (values.Cached || 0);
+  return { totalKb: values.MemTotal, availableKb };
+}
+
+export function parseDiskstats(diskstats: string): number {
+  let sectors = 0;
+  for (const line of diskstats.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10) continue;
+
+    const device = fields[2];
+    if (IGNORED_DISK.test(device) || PARTITION.test(device)) continue;
+    sectors += Number(fields[5]) + Number(fields[9]);
+  }
+  return sectors;
+}
+
+export function parseNetDev(netDev: string): number {
+  let bytes = 0;
+  for (const line of netDev.split("\n").slice(2)) {
+    const [iface, data] = line.split(":");
+    if (!data || iface.trim() === "lo") continue;
+
+    const fields = data.trim().split(/\s+/).map(Number);
+    bytes += fields[0] + fields[8];
+  }
+  return bytes;
+}
+
+export function readSnapshot(procRoot = "/proc"): ProcSnapshot {
+  const cpu = parseCpu(readProcFile(procRoot, "stat"));
+  const mem = parseMeminfo(readProcFile(procRoot, "meminfo"));
+  return {
+    takenAt: Date.now(),
+    cpuBusy: cpu.busy,
+    cpuTotal: cpu.total,
+    memTotalKb: mem.totalKb,
+    memAvailableKb: mem.availableKb,
+    diskSectors: parseDiskstats(readProcFile(procRoot, "diskstats")),
+    netBytes: parseNetDev(readProcFile(procRoot, path.join("net", "dev"))),
+  };
+}
+
+/**
+ * Turns two consecutive snapshots into the four SystemMetric fields:
+ * CPU and memory as whole percentages, disk and network as KiB/s over the interval.
+ */
+export function toSample(previous: ProcSnapshot, current: ProcSnapshot): SystemMetricSample {
+  const seconds = Math.max((current.takenAt - previous.takenAt) / 1000, 1e-3);
+  const cpuTotal = current.cpuTotal - previous.cpuTotal;
+  const perSecondKb = (delta: number) => Math.max(delta, 0) / 1024 / seconds;
+
+  return {
+    cpuUsage: cpuTotal > 0 ? Math.round(((current.cpuBusy - previous.cpuBusy) / cpuTotal) * 100) : 0,
+    memoryUsage: Math.round(((current.memTotalKb - current.memAvailableKb) / current.memTotalKb) * 100),
+    diskActivity: Math.round(perSecondKb((current.diskSectors - previous.diskSectors) * SECTOR_BYTES)),
+    networkTraffic: Math.round(perSecondKb(current.netBytes - previous.netBytes)),
+  };
+}
@@ -0,0 +1,44 @@
+// src/collector/spool.ts
+import fs from "fs";
+import path from "path";
+
+/**
+ * Append-only JSON-lines file holding entries that could not be submitted yet.
+ * A corrupt line (e.g. a write cut short by a crash) is skipped rather than blocking the rest.
+ */
+export class Spool<T> {
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  append(entries: T[]): void {
+    if (entries.length === 0) return;
+    fs.appendFileSync(this.file, entries.map((entry) => JSON.stringify(entry) + "\n").join(""));
+  }
+
+  read(): T[] {
+    if (!fs.existsSync(this.file)) return [];
+
+    const entries: T[] = [];
+    for (const line of fs.readFileSync(this.file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        console.warn(`Skipping corrupt spool entry in ${this.file}:`, line);
+      }
+    }
+    return entries;
+  }
+
+  // Atomically replaces the spool contents, so a crash mid-write never loses the old file
+  replace(entries: T[]): void {
+    if (entries.length === 0) {
+      if (fs.existsSync(this.file)) fs.unlinkSync(this.file);
+      return;
+    }
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, entries.map((entry) => JSON.stringify(entry) + "\n").join(""));
+    fs.renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,203 @@
+// src/crash/index.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JsonRpcProvider, Wallet } from "ethers";
+import { envNumber, envString, requireEnv } from "../client/env";
+import { createRelayerEncryptor, PrivateOSClient } from "../client/privateOS";
+import { DedupeLedger } from "./ledger";
+import { parseCrashFile, ParsedCrash } from "./parse";
+
+export interface CrashIngestOptions {
+  crashDir: string;
+  ledgerFile: string;
+  pollMs: number;
+  // A file must keep the same size for this long before it is read, so half-written dumps are skipped
+  settleMs: number;
+}
+
+interface SeenFile {
+  size: number;
+  since: number;
+}
+
+export class CrashIngestor {
+  private readonly ledger: DedupeLedger;
+  private readonly seen = new Map<string, SeenFile>();
+  private readonly done = new Set<string>();
+  private readonly unreadable = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private scanning = false;
+
+  constructor(
+    private readonly client: PrivateOSClient,
+    private readonly options: CrashIngestOptions
+  ) {
+    this.ledger = new DedupeLedger(options.ledgerFile);
+  }
+
+  start(): void {
+    this.scan().catch((error) => console.error("Crash scan failed:", error));
+    this.timer = setInterval(() => {
+      this.scan().catch((error) => console.error("Crash scan failed:", error));
+    }, this.options.pollMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async scan(now = Date.now()): Promise<number> {
+    if (this.scanning) return 0;
+    this.scanning = true;
+
+    let reported = 0;
+    try {
+      for (const file of this.settledFiles(now)) {
+        if (await this.ingest(file)) reported++;
+      }
+    } finally {
+      this.scanning = false;
+    }
+    return reported;
+  }
+
+  private settledFiles(now: number): string[] {
+    if (!fs.existsSync(this.options.crashDir)) return [];
+
+    const ready: string[] = [];
+    for (const name of fs.readdirSync(this.options.crashDir)) {
+      if (name.startsWith(".") || name.endsWith(".tmp")) continue;
+
+      const file = path.join(this.options.crashDir, name);
+      if (this.done.has(file)) continue;
+
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(file);
+      } catch (error) {
+        // Rotated away since readdir, or not ours to read
+        this.skip(file, error);
+        continue;
+      }
+      if (!stat.isFile()) continue;
+
+      const previous = this.seen.get(file);
+      if (!previous || previous.size !== stat.size) {
+        this.seen.set(file, { size: stat.size, since: now });
+      } else if (now - previous.since >= this.options.settleMs) {
+        ready.push(file);
+      }
+    }
+    return ready;
+  }
+
+  /**
+   * Returns true when a new crash was submitted. Unreadable files are skipped and submission
+   * errors leave the file for the next scan; neither stops the rest of the scan.
+   */
+  private async ingest(file: string): Promise<boolean> {
+    let crash: ParsedCrash;
+    try {
+      crash = await parseCrashFile(file);
+    } catch (error) {
+      this.skip(file, error);
+      return false;
+    }
+    this.unreadable.delete(file);
+    if (this.ledger.has(crash.digest)) {
+      this.done.add(file);
+      return false;
+    }
+
+    try {
+      if (await this.alreadySent(crash)) {
+        this.done.add(file);
+        return false;
+      }
+
+      const tx = await this.client.sendCrashReport(crash);
+      const sent = { digest: crash.digest, file, txHash: tx.hash, reportedAt: Date.now() };
+      this.ledger.record({ ...sent, status: "sent" });
+      // Throws on revert; the next scan then finds the tx reverted and sends the crash again
+      await tx.wait();
+      this.ledger.record({ ...sent, status: "confirmed" });
+      this.done.add(file);
+      console.log(`Reported crash ${path.basename(file)} (pid ${crash.processId}, code ${crash.errorCode}) in tx ${tx.hash}`);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to report ${path.basename(file)}, will retry:`, describeError(error));
+      return false;
+    }
+  }
+
+  /**
+   * Resolves a report broadcast by an earlier scan whose receipt never came back. Throws while
+   * that tx is still pending, so the dump is neither marked done nor sent a second time.
+   */
+  private async alreadySent(crash: ParsedCrash): Promise<boolean> {
+    const pending = this.ledger.pending(crash.digest);
+    if (!pending) return false;
+
+    const status = await this.client.transactionStatus(pending.txHash);
+    if (status === "pending") {
+      throw new Error(`tx ${pending.txHash} is still pending`);
+    }
+    if (status !== "mined") return false;
+
+    this.ledger.record({ ...pending, status: "confirmed" });
+    console.log(`Crash ${path.basename(crash.file)} was already reported in tx ${pending.txHash}`);
+    return true;
+  }
+
+  // Logged once per file until it becomes readable, since the same file fails again on every poll
+  private skip(file: string, error: unknown): void {
+    const reason = describeError(error);
+    if (this.unreadable.get(file) !== reason) {
+      console.warn(`Skipping unreadable crash file ${path.basename(file)}:`, reason);
+    }
+    this.unreadable.set(file, reason);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function main() {
+  const rpcUrl = envString("RPC_URL", "https://sepolia.drpc.org");
+  const provider = new JsonRpcProvider(rpcUrl);
+  const wallet = new Wallet(requireEnv("PRIVATE_KEY"), provider);
+  const client = new PrivateOSClient(
+    requireEnv("PRIVATE_OS_ADDRESS"),
+    wallet,
+    await createRelayerEncryptor(rpcUrl)
+  );
+
+  await client.requireRole("device");
+
+  const ingestor = new CrashIngestor(client, {
+    crashDir: envString("CRASH_DIR", "/var/lib/systemd/coredump"),
+    ledgerFile: envString("CRASH_LEDGER", path.join(os.homedir(), ".privateosfhe", "crash-ledger.jsonl")),
+    pollMs: envNumber("CRASH_POLL_MS", 5_000),
+    settleMs: envNumber("CRASH_SETTLE_MS", 2_000),
+  });
+
+  console.log(`Watching for crashes as ${wallet.address} for PrivateOSFHE at ${client.address}`);
+  ingestor.start();
+
+  const shutdown = () => {
+    ingestor.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
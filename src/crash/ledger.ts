@@ -0,0 +1,52 @@
+// src/crash/ledger.ts
+import fs from "fs";
+import path from "path";
+
+export interface LedgerEntry {
+  digest: string;
+  file: string;
+  txHash: string;
+  reportedAt: number;
+  // "sent" is written right after broadcast, before the receipt; entries from older ledgers have no status
+  status?: "sent" | "confirmed";
+}
+
+/**
+ * Append-only record of every crash dump already reported, keyed by content digest,
+ * so a dump that is re-dropped, renamed or copied is never submitted twice.
+ */
+export class DedupeLedger {
+  // Latest entry per digest
+  private readonly entries = new Map<string, LedgerEntry>();
+
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (!fs.existsSync(file)) return;
+
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LedgerEntry;
+        this.entries.set(entry.digest, entry);
+      } catch (error) {
+        console.warn(`Skipping corrupt ledger entry in ${file}:`, line);
+      }
+    }
+  }
+
+  has(digest: string): boolean {
+    const entry = this.entries.get(digest);
+    return entry !== undefined && entry.status !== "sent";
+  }
+
+  // The tx last broadcast for a digest whose receipt was never seen
+  pending(digest: string): LedgerEntry | undefined {
+    const entry = this.entries.get(digest);
+    return entry?.status === "sent" ? entry : undefined;
+  }
+
+  record(entry: LedgerEntry): void {
+    fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+    this.entries.set(entry.digest, entry);
+  }
+}
@@ -0,0 +1,76 @@
+// src/crash/parse.ts
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { CrashSample } from "../client/privateOS";
+
+// How much of a text crash log is scanned for pid/signal/error fields
+const LOG_SCAN_BYTES = 64 * 1024;
+
+export interface ParsedCrash extends CrashSample {
+  file: string;
+  // sha256 of the whole dump, used as the dedupe key
+  digest: string;
+}
+
+/** systemd-coredump: core.<comm>.<uid>.<boot id>.<pid>.<usec timestamp>[.zst|.xz|.lz4] */
+const COREDUMP_NAME = /^core\.(.+)\.(\d+)\.([0-9a-f]{32})\.(\d+)\.(\d+)(\.\w+)?$/;
+
+export function hashFile(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(file)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+export function signalNumber(name: string): number | undefined {
+  const key = name.toUpperCase().startsWith("SIG") ? name.toUpperCase() : `SIG${name.toUpperCase()}`;
+  return (os.constants.signals as Record<string, number>)[key];
+}
+
+function readHead(file: string): string {
+  const fd = fs.openSync(file, "r");
+  try {
+    const buffer = Buffer.alloc(LOG_SCAN_BYTES);
+    const bytes = fs.readSync(fd, buffer, 0, LOG_SCAN_BYTES, 0);
+    return buffer.subarray(0, bytes).toString("utf8");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Error code: the terminating signal when one is named (`signal=11`, `SIGSEGV`),
+ * otherwise an explicit `error_code=`/`exit code` value, otherwise 0.
+ */
+export function parseLogFields(text: string): { errorCode: number; processId: number } {
+  let errorCode = 0;
+  const signal = text.match(/\bsignal[\s:=]+(\d+)\b/i) || text.match(/\b(SIG[A-Z]+)\b/);
+  const code = text.match(/\b(?:error[_ ]?code|exit[_ ]?code|status)[\s:=]+(0x[0-9a-f]+|\d+)\b/i);
+  if (signal) {
+    errorCode = /^\d+$/.test(signal[1]) ? Number(signal[1]) : signalNumber(signal[1]) ?? 0;
+  } else if (code) {
+    errorCode = Number(code[1]);
+  }
+
+  const pid = text.match(/\bpid[\s:=]+(\d+)\b/i);
+  return { errorCode, processId: pid ? Number(pid[1]) : 0 };
+}
+
+export async function parseCrashFile(file: string): Promise<ParsedCrash> {
+  const digest = await hashFile(file);
+  // The first 4 bytes of the digest are the 32-bit dump hash that goes on-chain
+  const memoryDumpHash = parseInt(digest.substring(0, 8), 16);
+
+  const coredump = path.basename(file).match(COREDUMP_NAME);
+  if (coredump) {
+    // Binary core files carry no readable signal; systemd keeps it in xattrs we cannot read portably
+    return { file, digest, memoryDumpHash, processId: Number(coredump[4]), errorCode: 0 };
+  }
+
+  return { file, digest, memoryDumpHash, ...parseLogFields(readHead(file)) };
+}
@@ -0,0 +1,202 @@
+// src/indexer/index.ts
+import os from "os";
+import path from "path";
+import { ethers, JsonRpcProvider } from "ethers";
+import { envNumber, envString, requireEnv } from "../client/env";
+import { loadPrivateOSAbi } from "../client/privateOS";
+import { createQueryServer } from "./server";
+import { BlockRef, EventKind, IndexedEvent, IndexStore } from "./store";
+
+const ADAPTER_EVENTS = ["event DataStored(address indexed sender, string key, bytes value)"];
+const PRIVATE_OS_EVENTS: EventKind[] = ["MetricCollected", "CrashReported", "AnalysisCompleted", "AnomalyDetected"];
+
+export interface IndexerOptions {
+  privateOSAddress: string;
+  // Legacy UniversalAdapter, indexed for its DataStored events when set
+  adapterAddress?: string;
+  startBlock: number;
+  batchSize: number;
+  // Stay this many blocks behind head; reorgs deeper than this are still detected and rolled back
+  confirmations: number;
+  pollMs: number;
+}
+
+export class EventIndexer {
+  private readonly privateOS: ethers.Interface;
+  private readonly adapter = new ethers.Interface(ADAPTER_EVENTS);
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly store: IndexStore,
+    private readonly options: IndexerOptions,
+    abi: ethers.InterfaceAbi = loadPrivateOSAbi()
+  ) {
+    this.privateOS = new ethers.Interface(abi);
+  }
+
+  start(): void {
+    const tick = () => this.sync().catch((error) => console.error("Index sync failed:", error));
+    tick();
+    this.timer = setInterval(tick, this.options.pollMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Indexes up to the confirmed head and returns the number of new events. */
+  async sync(): Promise<number> {
+    if (this.syncing) return 0;
+    this.syncing = true;
+
+    try {
+      if (!(await this.handleReorg())) return 0;
+
+      const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+      let from = this.store.cursor ? this.store.cursor.number + 1 : this.options.startBlock;
+      let indexed = 0;
+
+      while (from <= head) {
+        const to = Math.min(head, from + this.options.batchSize - 1);
+        indexed += await this.indexRange(from, to);
+        from = to + 1;
+      }
+      return indexed;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async indexRange(from: number, to: number): Promise<number> {
+    const addresses = [this.options.privateOSAddress, this.options.adapterAddress].filter(Boolean) as string[];
+    const topics = [
+      ...PRIVATE_OS_EVENTS.map((name) => this.privateOS.getEvent(name)!.topicHash),
+      this.adapter.getEvent("DataStored")!.topicHash,
+    ];
+    const logs = await this.provider.getLogs({ address: addresses, fromBlock: from, toBlock: to, topics: [topics] });
+
+    const blocks = new Map<number, ethers.Block>();
+    const senders = new Map<string, string>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const parsed = this.parse(log);
+      if (!parsed) continue;
+
+      if (!blocks.has(log.blockNumber)) {
+        blocks.set(log.blockNumber, (await this.provider.getBlock(log.blockNumber))!);
+      }
+      if (!senders.has(log.transactionHash)) {
+        senders.set(log.transactionHash, (await this.provider.getTransaction(log.transactionHash))!.from);
+      }
+
+      events.push({
+        kind: parsed.name as EventKind,
+        contract: log.address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        from: senders.get(log.transactionHash)!,
+        timestamp: blocks.get(log.blockNumber)!.timestamp,
+        args: Object.fromEntries(
+          parsed.fragment.inputs.map((input, i) => [input.name, String(parsed.args[i])])
+        ),
+      });
+    }
+
+    const end = await this.provider.getBlock(to);
+    if (!end?.hash) {
+      throw new Error(`Block ${to} not available from the RPC`);
+    }
+
+    const refs: BlockRef[] = [...blocks.values()].map((block) => ({ number: block.number, hash: block.hash! }));
+    this.store.append(events, refs, { number: to, hash: end.hash });
+    this.store.save();
+
+    if (events.length > 0) {
+      console.log(`Indexed ${events.length} events in blocks ${from}-${to}`);
+    }
+    return events.length;
+  }
+
+  private parse(log: ethers.Log): ethers.LogDescription | null {
+    const isAdapter = log.address.toLowerCase() === this.options.adapterAddress?.toLowerCase();
+    return (isAdapter ? this.adapter : this.privateOS).parseLog(log);
+  }
+
+  // If the cursor block was replaced, walk back through recent hashes to the last common block.
+  // Returns false when the RPC could not serve a block needed to tell, so the sync waits a poll.
+  private async handleReorg(): Promise<boolean> {
+    const cursor = this.store.cursor;
+    if (!cursor) return true;
+
+    // A lagging or load-balanced node may not have the block yet, which is no sign of a reorg
+    const current = await this.provider.getBlock(cursor.number);
+    if (!current?.hash) return this.unavailable(cursor.number);
+    if (current.hash === cursor.hash) return true;
+
+    let forkPoint: BlockRef | null = null;
+    for (const ref of [...this.store.recentBlocks].reverse()) {
+      if (ref.number >= cursor.number) continue;
+      const block = await this.provider.getBlock(ref.number);
+      if (!block?.hash) return this.unavailable(ref.number);
+      if (block.hash === ref.hash) {
+        forkPoint = ref;
+        break;
+      }
+    }
+
+    // No surviving block in the window: start over rather than keep events from a dead fork
+    const dropped = this.store.rollback(forkPoint);
+    this.store.save();
+    console.warn(
+      `Reorg detected at block ${cursor.number}, rolled back to ${forkPoint ? forkPoint.number : "the start block"} (${dropped} events dropped)`
+    );
+    return true;
+  }
+
+  private unavailable(blockNumber: number): false {
+    console.warn(`Block ${blockNumber} not available from the RPC, checking for a reorg again next poll`);
+    return false;
+  }
+}
+
+async function main() {
+  const provider = new JsonRpcProvider(envString("RPC_URL", "https://sepolia.drpc.org"));
+  const store = new IndexStore(
+    envString("INDEXER_STORE", path.join(os.homedir(), ".privateosfhe", "index.json"))
+  );
+
+  const indexer = new EventIndexer(provider, store, {
+    privateOSAddress: requireEnv("PRIVATE_OS_ADDRESS"),
+    adapterAddress: process.env.ADAPTER_ADDRESS || undefined,
+    startBlock: envNumber("INDEXER_START_BLOCK", 0),
+    batchSize: envNumber("INDEXER_BATCH_SIZE", 2_000),
+    confirmations: envNumber("INDEXER_CONFIRMATIONS", 2),
+    pollMs: envNumber("INDEXER_POLL_MS", 12_000),
+  });
+
+  const port = envNumber("INDEXER_PORT", 8787);
+  const server = createQueryServer(store);
+  server.listen(port, () => console.log(`Indexer query API listening on http://localhost:${port}`));
+  indexer.start();
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
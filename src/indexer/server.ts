@@ -0,0 +1,171 @@
+// src/indexer/server.ts
+import http from "http";
+import { EventKind, IndexedEvent, IndexStore } from "./store";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export interface Page<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+}
+
+class BadRequest extends Error {}
+
+function intParam(params: URLSearchParams, name: string, fallback: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new BadRequest(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+// Newest first, filtered by the query params every list endpoint shares
+function select(store: IndexStore, kind: EventKind, params: URLSearchParams): IndexedEvent[] {
+  const owner = params.get("owner")?.toLowerCase();
+  const from = intParam(params, "from", 0);
+  const to = intParam(params, "to", Number.MAX_SAFE_INTEGER);
+
+  return store.events
+    .filter((event) => event.kind === kind)
+    .filter((event) => !owner || event.from.toLowerCase() === owner)
+    .filter((event) => event.timestamp >= from && event.timestamp <= to)
+    .reverse();
+}
+
+function paginate<T>(items: T[], params: URLSearchParams): Page<T> {
+  const offset = intParam(params, "offset", 0);
+  const limit = Math.min(intParam(params, "limit", DEFAULT_LIMIT), MAX_LIMIT);
+  return { total: items.length, offset, limit, items: items.slice(offset, offset + limit) };
+}
+
+function summary(event: IndexedEvent) {
+  return {
+    owner: event.from,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    txHash: event.txHash,
+  };
+}
+
+function source(event: IndexedEvent) {
+  return { deviceId: Number(event.args.deviceId), fleetId: Number(event.args.fleetId) };
+}
+
+// `device` and `fleet` filter submissions by registry ID; the fleet is the one the device was in at the time
+function fromSource(params: URLSearchParams) {
+  const deviceId = params.has("device") ? intParam(params, "device", 0) : null;
+  const fleetId = params.has("fleet") ? intParam(params, "fleet", 0) : null;
+  return (item: ReturnType<typeof source>) =>
+    (deviceId === null || item.deviceId === deviceId) && (fleetId === null || item.fleetId === fleetId);
+}
+
+export function queryMetrics(store: IndexStore, params: URLSearchParams) {
+  return paginate(
+    select(store, "MetricCollected", params)
+      .map((event) => ({ metricId: Number(event.args.metricId), ...source(event), ...summary(event) }))
+      .filter(fromSource(params)),
+    params
+  );
+}
+
+export function queryCrashes(store: IndexStore, params: URLSearchParams) {
+  return paginate(
+    select(store, "CrashReported", params)
+      .map((event) => ({ crashId: Number(event.args.crashId), ...source(event), ...summary(event) }))
+      .filter(fromSource(params)),
+    params
+  );
+}
+
+function anomaly(event: IndexedEvent) {
+  return { metricId: Number(event.args.metricId), ruleId: Number(event.args.ruleId), rule: event.args.rule };
+}
+
+// Analyses through the oracle emit one AnomalyDetected per matching sample and rule, in the
+// same tx as AnalysisCompleted
+export function queryAnalyses(store: IndexStore, params: URLSearchParams) {
+  const anomalies = new Map<string, ReturnType<typeof anomaly>[]>();
+  for (const event of store.events.filter((event) => event.kind === "AnomalyDetected")) {
+    anomalies.set(event.txHash, [...(anomalies.get(event.txHash) ?? []), anomaly(event)]);
+  }
+  return paginate(
+    select(store, "AnalysisCompleted", params).map((event) => ({
+      analysisId: Number(event.args.analysisId),
+      anomalyDetected: anomalies.has(event.txHash),
+      anomalies: anomalies.get(event.txHash) ?? [],
+      ...summary(event),
+    })),
+    params
+  );
+}
+
+// Every rule that fired, from analyses and checkMetric alike; `rule` and `metric` filter by ID
+export function queryAnomalies(store: IndexStore, params: URLSearchParams) {
+  const ruleId = params.has("rule") ? intParam(params, "rule", 0) : null;
+  const metricId = params.has("metric") ? intParam(params, "metric", 0) : null;
+  return paginate(
+    select(store, "AnomalyDetected", params)
+      .map((event) => ({ ...anomaly(event), ...summary(event) }))
+      .filter((item) => ruleId === null || item.ruleId === ruleId)
+      .filter((item) => metricId === null || item.metricId === metricId),
+    params
+  );
+}
+
+// Legacy UniversalAdapter writes; `latest=1` keeps only the newest value per (sender, key)
+export function queryAdapterData(store: IndexStore, params: URLSearchParams) {
+  const key = params.get("key");
+  let items = select(store, "DataStored", new URLSearchParams({ owner: params.get("sender") ?? "" }))
+    .filter((event) => key === null || event.args.key === key);
+
+  if (params.get("latest") === "1") {
+    const seen = new Set<string>();
+    items = items.filter((event) => {
+      const id = `${event.from.toLowerCase()}:${event.args.key}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }
+
+  return paginate(
+    items.map((event) => ({ sender: event.args.sender, key: event.args.key, value: event.args.value, ...summary(event) })),
+    params
+  );
+}
+
+const routes: Record<string, (store: IndexStore, params: URLSearchParams) => unknown> = {
+  "/status": (store) => ({ cursor: store.cursor, events: store.events.length }),
+  "/metrics": queryMetrics,
+  "/crashes": queryCrashes,
+  "/analyses": queryAnalyses,
+  "/anomalies": queryAnomalies,
+  "/adapter/data": queryAdapterData,
+};
+
+export function createQueryServer(store: IndexStore): http.Server {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+
+    const route = routes[url.pathname];
+    if (req.method !== "GET" || !route) {
+      res.writeHead(404).end(JSON.stringify({ error: "Not found" }));
+      return;
+    }
+
+    try {
+      res.writeHead(200).end(JSON.stringify(route(store, url.searchParams)));
+    } catch (error: any) {
+      const status = error instanceof BadRequest ? 400 : 500;
+      res.writeHead(status).end(JSON.stringify({ error: error.message || "Internal error" }));
+    }
+  });
+}
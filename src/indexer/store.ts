@@ -0,0 +1,88 @@
+// src/indexer/store.ts
+import fs from "fs";
+import path from "path";
+
+export type EventKind = "MetricCollected" | "CrashReported" | "AnalysisCompleted" | "AnomalyDetected" | "DataStored";
+
+export interface IndexedEvent {
+  kind: EventKind;
+  contract: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  // Sender of the emitting tx; PrivateOSFHE records carry no owner field of their own
+  from: string;
+  timestamp: number;
+  args: Record<string, string>;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface StoreFile {
+  version: 1;
+  cursor: BlockRef | null;
+  // Recent block hashes, oldest first, used to find the fork point after a reorg
+  recentBlocks: BlockRef[];
+  events: IndexedEvent[];
+}
+
+const RECENT_BLOCKS = 128;
+
+/**
+ * Whole-file JSON store for indexed events. Saves go through a temp file and rename,
+ * so a crash mid-write leaves the previous state intact.
+ */
+export class IndexStore {
+  private state: StoreFile;
+
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.state = fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, "utf8")) as StoreFile)
+      : { version: 1, cursor: null, recentBlocks: [], events: [] };
+  }
+
+  get cursor(): BlockRef | null {
+    return this.state.cursor;
+  }
+
+  get recentBlocks(): readonly BlockRef[] {
+    return this.state.recentBlocks;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.state.events;
+  }
+
+  /** Appends events for a range already fetched and moves the cursor to `head` of that range. */
+  append(events: IndexedEvent[], blocks: BlockRef[], head: BlockRef): void {
+    this.state.events.push(...events);
+
+    const known = new Map(this.state.recentBlocks.map((block) => [block.number, block]));
+    for (const block of [...blocks, head]) known.set(block.number, block);
+    this.state.recentBlocks = [...known.values()]
+      .sort((a, b) => a.number - b.number)
+      .slice(-RECENT_BLOCKS);
+    this.state.cursor = head;
+  }
+
+  /** Drops everything above `block`, which must be the last block both chains agree on. */
+  rollback(block: BlockRef | null): number {
+    const keepUpTo = block ? block.number : -1;
+    const before = this.state.events.length;
+    this.state.events = this.state.events.filter((event) => event.blockNumber <= keepUpTo);
+    this.state.recentBlocks = this.state.recentBlocks.filter((ref) => ref.number <= keepUpTo);
+    this.state.cursor = block;
+    return before - this.state.events.length;
+  }
+
+  save(): void {
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.state));
+    fs.renameSync(tmp, this.file);
+  }
+}
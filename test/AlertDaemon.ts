@@ -0,0 +1,286 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { AlertDaemon } from "../src/alerts";
+import { Alert, AlertEngine, AlertRule, ChainEvent, DEFAULT_RULES, Severity } from "../src/alerts/rules";
+import { AlertSink, FileSink, MailDropSink, WebhookSink } from "../src/alerts/sinks";
+import { PrivateOSClient } from "../src/client/privateOS";
+
+class MemorySink {
+  readonly name: string = "memory";
+  readonly alerts: Alert[] = [];
+
+  constructor(readonly minSeverity: Severity = "info") {}
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+class BrokenSink extends MemorySink {
+  readonly name = "broken";
+
+  async send(): Promise<void> {
+    throw new Error("unreachable");
+  }
+}
+
+function event(kind: ChainEvent["kind"], args: Record<string, string>, timestamp: number): ChainEvent {
+  return { kind, args, blockNumber: 1, txHash: "0x" + "ab".repeat(32), logIndex: 0, timestamp };
+}
+
+const sample: Alert = {
+  rule: "repeated-crashes",
+  severity: "critical",
+  event: "CrashReported",
+  group: null,
+  count: 3,
+  windowMinutes: 10,
+  message: "repeated-crashes: 3 CrashReported events within 10 minutes, latest crash #3 reported",
+  firstSeen: 1_700_000_000,
+  lastSeen: 1_700_000_120,
+  blockNumber: 42,
+  txHash: "0x" + "cd".repeat(32),
+  logIndex: 3,
+};
+
+describe("AlertEngine", function () {
+  it("fires once a window holds enough matching events, then stays quiet for the cooldown", function () {
+    const engine = new AlertEngine([
+      { name: "crashes", event: "CrashReported", severity: "critical", count: 3, windowMinutes: 10 },
+    ]);
+    const at = (minute: number, id: number) =>
+      engine.evaluate(event("CrashReported", { crashId: String(id) }, minute * 60));
+
+    expect([...at(0, 1), ...at(5, 2)]).to.have.length(0);
+    // The first crash has left the window
+    expect(at(11, 3)).to.have.length(0);
+    const [alert] = at(12, 4);
+    expect(alert).to.include({ rule: "crashes", count: 3, firstSeen: 5 * 60, lastSeen: 12 * 60 });
+
+    expect([...at(13, 5), ...at(14, 6), ...at(15, 7)]).to.have.length(0);
+    expect(at(23, 8)).to.have.length(1);
+  });
+
+  it("keeps a window per group and only counts matching events", function () {
+    const engine = new AlertEngine([
+      {
+        name: "flapping-metric",
+        event: "AnomalyDetected",
+        severity: "warning",
+        count: 2,
+        windowMinutes: 5,
+        match: { rule: "cpu-or-memory" },
+        groupBy: "metricId",
+      },
+    ]);
+    const anomaly = (metricId: string, rule: string) =>
+      engine.evaluate(event("AnomalyDetected", { metricId, ruleId: "1", rule }, 60));
+
+    expect([
+      ...anomaly("1", "cpu-or-memory"),
+      ...anomaly("2", "cpu-or-memory"),
+      ...anomaly("1", "disk"),
+    ]).to.have.length(0);
+    const [alert] = anomaly("1", "cpu-or-memory");
+    expect(alert.group).to.eq("1");
+    expect(alert.message).to.match(/for metricId 1/);
+  });
+
+  it("rejects rules it cannot evaluate", function () {
+    const rule: AlertRule = { name: "r", event: "CrashReported", severity: "warning", count: 1, windowMinutes: 0 };
+    expect(() => new AlertEngine([{ ...rule, count: 0 }])).to.throw(/count must be a positive integer/);
+    expect(() => new AlertEngine([{ ...rule, count: 2 }])).to.throw(/needs a window/);
+    expect(() => new AlertEngine([{ ...rule, severity: "fatal" as Severity }])).to.throw(/severity/);
+    expect(() => new AlertEngine([{ ...rule, event: "MetricCollected" as ChainEvent["kind"] }])).to.throw(/event/);
+  });
+});
+
+describe("alert sinks", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "alerts-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON alert per line to a file", async function () {
+    const sink = new FileSink(path.join(dir, "alerts.jsonl"));
+    await sink.send(sample);
+    await sink.send({ ...sample, rule: "other" });
+
+    const lines = fs.readFileSync(path.join(dir, "alerts.jsonl"), "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).rule)).to.deep.eq(["repeated-crashes", "other"]);
+  });
+
+  it("drops a mail message per alert into the pickup directory", async function () {
+    const sink = new MailDropSink(dir, "alerts@privateos.local", ["oncall@example.com", "ops@example.com"]);
+    await sink.send(sample);
+
+    const [file] = fs.readdirSync(dir);
+    expect(file).to.match(/\.eml$/);
+    const message = fs.readFileSync(path.join(dir, file), "utf8");
+    expect(message).to.contain("To: oncall@example.com, ops@example.com\r\n");
+    expect(message).to.contain("Subject: [PrivateOSFHE critical] repeated-crashes\r\n");
+    expect(message).to.contain(sample.message);
+  });
+
+  it("keeps mail inside the pickup directory whatever the rule is called", async function () {
+    const mailDir = path.join(dir, "mail");
+    const sink = new MailDropSink(mailDir, "alerts@privateos.local", ["oncall@example.com"]);
+    await sink.send({ ...sample, rule: "../../etc/cron.d/x y" });
+
+    expect(fs.readdirSync(dir)).to.deep.eq(["mail"]);
+    const [file] = fs.readdirSync(mailDir);
+    expect(file).to.match(/^\d+-______etc_cron_d_x_y-[0-9a-f]{8}-3\.eml$/);
+    expect(fs.readFileSync(path.join(mailDir, file), "utf8")).to.contain("] ../../etc/cron.d/x y\r\n");
+  });
+
+  it("posts the alert as JSON to a webhook and surfaces error statuses", async function () {
+    const received: unknown[] = [];
+    let status = 204;
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ auth: req.headers.authorization, alert: JSON.parse(body) });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const { port } = server.address() as { port: number };
+      const sink = new WebhookSink(`http://127.0.0.1:${port}/hook`, "info", { Authorization: "Bearer t" });
+      await sink.send(sample);
+      expect(received).to.deep.eq([{ auth: "Bearer t", alert: sample }]);
+
+      status = 500;
+      await expect(sink.send(sample)).to.be.rejectedWith(/Webhook answered 500/);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("AlertDaemon", function () {
+  let client: PrivateOSClient;
+  let sink: MemorySink;
+  let daemon: AlertDaemon;
+  let cursorFile: string;
+  let warnings: unknown[][];
+  let warn: typeof console.warn;
+
+  before(function () {
+    if (!fhevm.isMock) {
+      console.warn("AlertDaemon tests require the fhevm mock environment");
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    const [alice] = await ethers.getSigners();
+    const contract = await ethers.deployContract("PrivateOSFHE");
+    const { abi } = await artifacts.readArtifact("PrivateOSFHE");
+    client = new PrivateOSClient(await contract.getAddress(), alice, fhevm, abi);
+    await client.createFleet("lab");
+    await client.enrollDevice(alice.address, 1);
+    await client.grantRole("analyst", alice.address);
+
+    cursorFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "alerts-")), "cursor.json");
+    sink = new MemorySink();
+    daemon = createDaemon(DEFAULT_RULES, [sink]);
+
+    // Failing sinks are reported through console.warn; collect instead of printing
+    warnings = [];
+    warn = console.warn;
+    console.warn = (...args: unknown[]) => warnings.push(args);
+  });
+
+  afterEach(function () {
+    console.warn = warn;
+    fs.rmSync(path.dirname(cursorFile), { recursive: true, force: true });
+  });
+
+  function createDaemon(rules: AlertRule[], sinks: AlertSink[]) {
+    const options = { privateOSAddress: client.address, startBlock: 0, batchSize: 100, confirmations: 0, cursorFile };
+    const { fragments } = client.contract.interface;
+    return new AlertDaemon(ethers.provider, rules, sinks, { ...options, pollMs: 1_000 }, fragments);
+  }
+
+  async function reportCrashes(count: number) {
+    for (let i = 0; i < count; i++) {
+      await client.reportCrash({ errorCode: 11, memoryDumpHash: i, processId: 100 + i });
+    }
+  }
+
+  it("alerts on every anomaly, naming the rule that fired", async function () {
+    await client.submitSystemMetric({ cpuUsage: 97, memoryUsage: 40, diskActivity: 0, networkTraffic: 0 });
+    await client.checkMetric(1, 1);
+    await fhevm.awaitDecryptionOracle();
+
+    const alerts = await daemon.poll();
+    expect(alerts.map((alert) => alert.rule)).to.deep.eq(["anomaly"]);
+    expect(alerts[0].severity).to.eq("warning");
+    expect(alerts[0].message).to.eq('anomaly: rule "cpu-or-memory" (#1) fired on metric #1');
+    expect(sink.alerts).to.deep.eq(alerts);
+  });
+
+  it("raises a critical alert for three crashes within ten minutes", async function () {
+    await reportCrashes(2);
+    await time.increase(11 * 60);
+    await reportCrashes(2);
+    expect(await daemon.poll()).to.have.length(0);
+
+    await reportCrashes(1);
+    const [alert] = await daemon.poll();
+    expect(alert).to.include({ rule: "repeated-crashes", severity: "critical", count: 3 });
+    expect(alert.message).to.match(/3 CrashReported events within 10 minutes, latest crash #5 reported/);
+  });
+
+  it("only sends alerts at or above each sink's minimum severity", async function () {
+    const critical = new MemorySink("critical");
+    daemon = createDaemon(DEFAULT_RULES, [sink, critical, new BrokenSink()]);
+    await client.submitSystemMetric({ cpuUsage: 10, memoryUsage: 40, diskActivity: 0, networkTraffic: 0 });
+    await client.analyzePerformanceHomomorphic([1]);
+    await reportCrashes(3);
+
+    await daemon.poll();
+    expect(sink.alerts.map((alert) => alert.severity)).to.deep.eq(["info", "critical"]);
+    expect(critical.alerts.map((alert) => alert.rule)).to.deep.eq(["repeated-crashes"]);
+    expect(warnings.map(([message]) => message)).to.deep.eq([
+      "Alert sink broken failed for analysis-completed:",
+      "Alert sink broken failed for repeated-crashes:",
+    ]);
+  });
+
+  it("mails every anomaly an analysis raises, even from a single transaction", async function () {
+    const mailDir = path.join(path.dirname(cursorFile), "mail");
+    daemon = createDaemon(DEFAULT_RULES, [new MailDropSink(mailDir, "alerts@privateos.local", ["oncall@example.com"])]);
+    await client.submitSystemMetric({ cpuUsage: 97, memoryUsage: 40, diskActivity: 0, networkTraffic: 0 });
+    await client.submitSystemMetric({ cpuUsage: 20, memoryUsage: 95, diskActivity: 0, networkTraffic: 0 });
+    await client.contract.analyzePerformance([1, 2]);
+    await fhevm.awaitDecryptionOracle();
+
+    const anomalies = (await daemon.poll()).filter((alert) => alert.rule === "anomaly");
+    expect(anomalies).to.have.length(2);
+    expect(anomalies[0].txHash).to.eq(anomalies[1].txHash);
+    expect(fs.readdirSync(mailDir).filter((file) => file.includes("-anomaly-"))).to.have.length(2);
+  });
+
+  it("resumes after the last processed block", async function () {
+    await reportCrashes(3);
+    expect(await daemon.poll()).to.have.length(1);
+
+    const restarted = createDaemon(DEFAULT_RULES, [sink]);
+    expect(await restarted.poll()).to.have.length(0);
+    expect(JSON.parse(fs.readFileSync(cursorFile, "utf8")).cursor).to.eq(await ethers.provider.getBlockNumber());
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { PrivateOSClient } from "../src/client/privateOS";
+import { SpooledSample, TelemetryCollector } from "../src/collector";
+import {
+  parseCpu,
+  parseDiskstats,
+  parseMeminfo,
+  parseNetDev,
+  ProcSnapshot,
+  readSnapshot,
+  toSample,
+} from "../src/collector/procfs";
+
+const STAT = `cpu  100 20 30 800 50 0 0 0 0 0
+cpu0 50 10 15 400 25 0 0 0 0 0
+intr 12345
+`;
+
+const MEMINFO = `MemTotal:        8000000 kB
+MemFree:          500000 kB
+MemAvailable:    2000000 kB
+Buffers:          100000 kB
+Cached:          1000000 kB
+`;
+
+const DISKSTATS = `   7       0 loop0 10 0 5000 0 0 0 0 0 0 0 0
+   8       0 sda 100 0 2000 0 50 0 1000 0 0 0 0
+   8       1 sda1 90 0 1800 0 40 0 900 0 0 0 0
+ 259       0 nvme0n1 10 0 300 0 5 0 200 0 0 0 0
+ 259       1 nvme0n1p1 10 0 300 0 5 0 200 0 0 0 0
+ 253       0 dm-0 10 0 777 0 5 0 777 0 0 0 0
+`;
+
+const NET_DEV = `Inter-|   Receive                                                |  Transmit
+ face |bytes    packets errs drop fifo frame compressed multicast|bytes    packets errs drop fifo colls carrier compressed
+    lo: 999999    100    0    0    0     0          0         0   999999     100    0    0    0     0       0          0
+  eth0: 1000      10    0    0    0     0          0         0     2000      20    0    0    0     0       0          0
+ wlan0:  500       5    0    0    0     0          0         0      500       5    0    0    0     0       0          0
+`;
+
+describe("procfs parsing", function () {
+  it("counts idle and iowait as not busy", function () {
+    expect(parseCpu(STAT)).to.deep.eq({ busy: 150, total: 1000 });
+    expect(() => parseCpu("intr 1\n")).to.throw(/No aggregate cpu line/);
+  });
+
+  it("prefers MemAvailable and estimates it on kernels without one", function () {
+    expect(parseMeminfo(MEMINFO)).to.deep.eq({ totalKb: 8000000, availableKb: 2000000 });
+    const old = MEMINFO.split("\n").filter((line) => !line.startsWith("MemAvailable")).join("\n");
+    expect(parseMeminfo(old)).to.deep.eq({ totalKb: 8000000, availableKb: 1600000 });
+    expect(() => parseMeminfo("MemFree: 1 kB\n")).to.throw(/No MemTotal/);
+  });
+
+  it("sums sectors of whole physical disks only", function () {
+    // sda 2000 + 1000, nvme0n1 300 + 200; partitions, loop and device-mapper are left out
+    expect(parseDiskstats(DISKSTATS)).to.eq(3500);
+  });
+
+  it("sums traffic of every interface but loopback", function () {
+    expect(parseNetDev(NET_DEV)).to.eq(4000);
+  });
+
+  it("reads a snapshot from a proc root", function () {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "proc-"));
+    try {
+      fs.mkdirSync(path.join(root, "net"));
+      fs.writeFileSync(path.join(root, "stat"), STAT);
+      fs.writeFileSync(path.join(root, "meminfo"), MEMINFO);
+      fs.writeFileSync(path.join(root, "diskstats"), DISKSTATS);
+      fs.writeFileSync(path.join(root, "net", "dev"), NET_DEV);
+
+      expect(readSnapshot(root)).to.include({
+        cpuBusy: 150,
+        memAvailableKb: 2000000,
+        diskSectors: 3500,
+        netBytes: 4000,
+      });
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("turns two snapshots into percentages and KiB/s", function () {
+    const previous: ProcSnapshot = {
+      takenAt: 0,
+      cpuBusy: 100,
+      cpuTotal: 1000,
+      memTotalKb: 8000,
+      memAvailableKb: 4000,
+      diskSectors: 0,
+      netBytes: 0,
+    };
+    const current = { ...previous, takenAt: 2000, cpuBusy: 400, cpuTotal: 2000, memAvailableKb: 2000 };
+
+    expect(toSample(previous, { ...current, diskSectors: 8192, netBytes: 10240 })).to.deep.eq({
+      cpuUsage: 30,
+      memoryUsage: 75,
+      diskActivity: 2048,
+      networkTraffic: 5,
+    });
+    // Counters reset by a reboot or a removed interface give zero, not a negative rate
+    expect(toSample({ ...previous, netBytes: 5000 }, current).networkTraffic).to.eq(0);
+  });
+});
+
+describe("TelemetryCollector", function () {
+  let dir: string;
+  let spoolFile: string;
+  let quarantineFile: string;
+  let log: typeof console.log;
+  let warn: typeof console.warn;
+
+  before(function () {
+    if (!fhevm.isMock) {
+      console.warn("TelemetryCollector tests require the fhevm mock environment");
+      this.skip();
+    }
+  });
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "collector-"));
+    spoolFile = path.join(dir, "spool.jsonl");
+    quarantineFile = path.join(dir, "rejected.jsonl");
+    log = console.log;
+    warn = console.warn;
+    console.log = () => {};
+    console.warn = () => {};
+  });
+
+  afterEach(function () {
+    console.log = log;
+    console.warn = warn;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const sample = (collectedAt: number): SpooledSample => ({
+    cpuUsage: 10,
+    memoryUsage: 20,
+    diskActivity: 30,
+    networkTraffic: 40,
+    collectedAt,
+  });
+
+  const readLines = (file: string) =>
+    fs.existsSync(file)
+      ? fs
+          .readFileSync(file, "utf8")
+          .trim()
+          .split("\n")
+          .map((line) => (JSON.parse(line) as SpooledSample).collectedAt)
+      : [];
+
+  type Submit = (client: PrivateOSClient, stranger: PrivateOSClient, sample: SpooledSample) => unknown;
+
+  async function deploy(submitAs: Submit) {
+    const [alice, bob] = await ethers.getSigners();
+    const contract = await ethers.deployContract("PrivateOSFHE");
+    const { abi } = await artifacts.readArtifact("PrivateOSFHE");
+    const address = await contract.getAddress();
+    const client = new PrivateOSClient(address, alice, fhevm, abi);
+    const stranger = new PrivateOSClient(address, bob, fhevm, abi);
+    await client.createFleet("lab");
+    await client.enrollDevice(alice.address, 1);
+
+    // Routes each sample through `submitAs`, so a test can make single samples fail
+    const routed = Object.create(client) as PrivateOSClient;
+    routed.submitSystemMetric = async (s) => submitAs(client, stranger, s as SpooledSample) as never;
+    const collector = new TelemetryCollector(routed, {
+      intervalMs: 1_000,
+      batchSize: 10,
+      procRoot: "/proc",
+      spoolFile,
+      quarantineFile,
+    });
+    return { client, collector };
+  }
+
+  it("quarantines a sample the contract reverts and flushes the rest", async function () {
+    const { client, collector } = await deploy((client, stranger, s) =>
+      // The second sample is sent by a key that was never enrolled
+      s.collectedAt === 2 ? stranger.submitSystemMetric(s) : client.submitSystemMetric(s)
+    );
+    fs.writeFileSync(spoolFile, [1, 2, 3].map((t) => JSON.stringify(sample(t)) + "\n").join(""));
+
+    expect(await collector.flush()).to.eq(2);
+    expect(await client.contract.metricCount()).to.eq(2);
+    expect(readLines(spoolFile)).to.deep.eq([]);
+    expect(readLines(quarantineFile)).to.deep.eq([2]);
+  });
+
+  it("spools everything from the first network error on", async function () {
+    const { collector } = await deploy((client, _, s) => {
+      if (s.collectedAt === 2) throw new Error("connect ECONNREFUSED 127.0.0.1:8545");
+      return client.submitSystemMetric(s);
+    });
+    fs.writeFileSync(spoolFile, [1, 2, 3].map((t) => JSON.stringify(sample(t)) + "\n").join(""));
+
+    expect(await collector.flush()).to.eq(1);
+    expect(readLines(spoolFile)).to.deep.eq([2, 3]);
+    expect(readLines(quarantineFile)).to.deep.eq([]);
+  });
+
+  it("finishes the sample in flight and keeps the rest when stopped mid-flush", async function () {
+    let stopped: Promise<void> | undefined;
+    const { client, collector } = await deploy((client, _, s) => {
+      if (s.collectedAt === 2) {
+        // SIGTERM arrives while this sample is being submitted, after a new one was collected
+        collector.collect();
+        collector.collect();
+        stopped = collector.stop();
+      }
+      return client.submitSystemMetric(s);
+    });
+    fs.writeFileSync(spoolFile, [1, 2, 3].map((t) => JSON.stringify(sample(t)) + "\n").join(""));
+
+    expect(await collector.flush()).to.eq(2);
+    await stopped;
+    expect(await client.contract.metricCount()).to.eq(2);
+    const spooled = readLines(spoolFile);
+    expect(spooled).to.have.length(2);
+    expect(spooled[0]).to.eq(3);
+  });
+});
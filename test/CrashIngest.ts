@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import type { ContractTransactionResponse } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { CrashSample, PrivateOSClient } from "../src/client/privateOS";
+import { CrashIngestor } from "../src/crash";
+import { LedgerEntry } from "../src/crash/ledger";
+import { parseCrashFile, parseLogFields } from "../src/crash/parse";
+
+const FIXTURES = path.join(__dirname, "fixtures", "crash");
+const COREDUMP = "core.myapp.1000.0123456789abcdef0123456789abcdef.4242.1700000000000000.zst";
+
+describe("crash parsing", function () {
+  const parse = (name: string) => parseCrashFile(path.join(FIXTURES, name));
+
+  it("reads the pid and the numeric signal from a crash log", async function () {
+    expect(await parse("segfault.log")).to.include({ errorCode: 11, processId: 4242 });
+  });
+
+  it("maps a named signal to its number", async function () {
+    expect(await parse("abort.log")).to.include({ errorCode: os.constants.signals.SIGABRT, processId: 77 });
+  });
+
+  it("falls back to a hex exit code when no signal is named", async function () {
+    expect(await parse("exit-code.log")).to.include({ errorCode: 0x7f, processId: 91 });
+  });
+
+  it("prefers the signal over an exit status", async function () {
+    expect(await parse("signal-over-status.log")).to.include({ errorCode: 9, processId: 12 });
+  });
+
+  it("reports zeros for a log without known fields", async function () {
+    expect(await parse("no-fields.log")).to.include({ errorCode: 0, processId: 0 });
+  });
+
+  it("takes the pid of a systemd core file from its name", async function () {
+    expect(await parse(COREDUMP)).to.include({ errorCode: 0, processId: 4242 });
+  });
+
+  it("hashes the whole file and puts its first 32 bits on chain", async function () {
+    const file = path.join(FIXTURES, "segfault.log");
+    const digest = crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+
+    const crash = await parseCrashFile(file);
+    expect(crash.digest).to.eq(digest);
+    expect(crash.memoryDumpHash).to.eq(parseInt(digest.substring(0, 8), 16));
+  });
+
+  it("parses fields case-insensitively from text", function () {
+    expect(parseLogFields("PID: 5 Error_Code=3")).to.deep.eq({ errorCode: 3, processId: 5 });
+    expect(parseLogFields("SIGKILL")).to.deep.eq({ errorCode: os.constants.signals.SIGKILL, processId: 0 });
+  });
+});
+
+// Broadcasts normally but loses the first receipt, as when the RPC dies after sending
+class FlakyClient extends PrivateOSClient {
+  loseNextReceipt = false;
+
+  async sendCrashReport(sample: CrashSample): Promise<ContractTransactionResponse> {
+    const tx = await super.sendCrashReport(sample);
+    if (this.loseNextReceipt) {
+      this.loseNextReceipt = false;
+      tx.wait = async () => {
+        throw new Error("socket hang up");
+      };
+    }
+    return tx;
+  }
+}
+
+describe("CrashIngestor", function () {
+  const SETTLE_MS = 1_000;
+  let client: FlakyClient;
+  let dir: string;
+  let ingestor: CrashIngestor;
+  let log: typeof console.log;
+  let warn: typeof console.warn;
+  let warnings: unknown[][];
+
+  before(function () {
+    if (!fhevm.isMock) {
+      console.warn("CrashIngestor tests require the fhevm mock environment");
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    const [alice] = await ethers.getSigners();
+    const contract = await ethers.deployContract("PrivateOSFHE");
+    const { abi } = await artifacts.readArtifact("PrivateOSFHE");
+    client = new FlakyClient(await contract.getAddress(), alice, fhevm, abi);
+    await client.createFleet("lab");
+    await client.enrollDevice(alice.address, 1);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "crash-"));
+    fs.mkdirSync(path.join(dir, "dumps"));
+    ingestor = new CrashIngestor(client, {
+      crashDir: path.join(dir, "dumps"),
+      ledgerFile: path.join(dir, "ledger.jsonl"),
+      pollMs: 1_000,
+      settleMs: SETTLE_MS,
+    });
+
+    warnings = [];
+    log = console.log;
+    warn = console.warn;
+    console.log = () => {};
+    console.warn = (...args: unknown[]) => warnings.push(args);
+  });
+
+  afterEach(function () {
+    console.log = log;
+    console.warn = warn;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function drop(name: string) {
+    fs.copyFileSync(path.join(FIXTURES, "segfault.log"), path.join(dir, "dumps", name));
+  }
+
+  function ledger(): LedgerEntry[] {
+    return fs
+      .readFileSync(path.join(dir, "ledger.jsonl"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  }
+
+  it("skips a file it cannot stat and still reports the others", async function () {
+    fs.symlinkSync(path.join(dir, "rotated-away"), path.join(dir, "dumps", "a.log"));
+    drop("b.log");
+
+    expect(await ingestor.scan(0)).to.eq(0);
+    expect(await ingestor.scan(SETTLE_MS)).to.eq(1);
+    expect(await ingestor.scan(2 * SETTLE_MS)).to.eq(0);
+    expect(await client.contract.crashCount()).to.eq(1);
+    // Logged once, not on every poll
+    expect(warnings.filter(([message]) => String(message).includes("a.log"))).to.have.length(1);
+  });
+
+  it("does not report a crash again when its receipt was lost", async function () {
+    client.loseNextReceipt = true;
+    drop("a.log");
+
+    await ingestor.scan(0);
+    expect(await ingestor.scan(SETTLE_MS)).to.eq(0);
+    expect(ledger().map((entry) => entry.status)).to.deep.eq(["sent"]);
+
+    expect(await ingestor.scan(2 * SETTLE_MS)).to.eq(0);
+    expect(await client.contract.crashCount()).to.eq(1);
+    expect(ledger().map((entry) => entry.status)).to.deep.eq(["sent", "confirmed"]);
+    expect(ledger()[1].txHash).to.eq(ledger()[0].txHash);
+  });
+});
@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { artifacts } from "hardhat";
+import { EventIndexer } from "../src/indexer";
+import { BlockRef, IndexedEvent, IndexStore } from "../src/indexer/store";
+
+const hash = (number: number, fork = 0) => ethers.id(`block ${number} fork ${fork}`);
+const ref = (number: number, fork = 0): BlockRef => ({ number, hash: hash(number, fork) });
+
+const event = (blockNumber: number): IndexedEvent => ({
+  kind: "MetricCollected",
+  contract: ethers.ZeroAddress,
+  blockNumber,
+  blockHash: hash(blockNumber),
+  txHash: ethers.id(`tx ${blockNumber}`),
+  logIndex: 0,
+  from: ethers.ZeroAddress,
+  timestamp: blockNumber,
+  args: {},
+});
+
+describe("IndexStore", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "index-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rolls back to a fork point inside the recent-block window", function () {
+    const file = path.join(dir, "index.json");
+    const store = new IndexStore(file);
+    for (let number = 1; number <= 10; number++) {
+      store.append([event(number)], [ref(number)], ref(number));
+    }
+
+    expect(store.rollback(ref(7))).to.eq(3);
+    expect(store.cursor).to.deep.eq(ref(7));
+    expect(store.events.map((e) => e.blockNumber)).to.deep.eq([1, 2, 3, 4, 5, 6, 7]);
+    expect(store.recentBlocks.map((block) => block.number)).to.deep.eq([1, 2, 3, 4, 5, 6, 7]);
+
+    store.save();
+    const reloaded = new IndexStore(file);
+    expect(reloaded.cursor).to.deep.eq(ref(7));
+    expect(reloaded.events).to.have.length(7);
+  });
+
+  it("keeps only the last 128 block hashes and starts over on a reorg deeper than them", function () {
+    const store = new IndexStore(path.join(dir, "index.json"));
+    for (let number = 1; number <= 200; number++) {
+      store.append(number % 50 === 0 ? [event(number)] : [], [], ref(number));
+    }
+    expect(store.recentBlocks).to.have.length(128);
+    expect(store.recentBlocks[0].number).to.eq(73);
+
+    expect(store.rollback(null)).to.eq(4);
+    expect(store.cursor).to.eq(null);
+    expect(store.events).to.deep.eq([]);
+    expect(store.recentBlocks).to.deep.eq([]);
+  });
+});
+
+// Serves block hashes from `chain`; a missing number is a block the RPC does not have
+class FakeChain {
+  readonly chain = new Map<number, string>();
+
+  extend(from: number, to: number, fork = 0) {
+    for (let number = from; number <= to; number++) this.chain.set(number, hash(number, fork));
+  }
+
+  asProvider(): ethers.Provider {
+    return {
+      getBlockNumber: async () => Math.max(...this.chain.keys()),
+      getBlock: async (number: number) => {
+        const blockHash = this.chain.get(number);
+        return blockHash ? { number, hash: blockHash, timestamp: number } : null;
+      },
+      getLogs: async () => [],
+    } as unknown as ethers.Provider;
+  }
+}
+
+describe("EventIndexer", function () {
+  let dir: string;
+  let store: IndexStore;
+  let fake: FakeChain;
+  let indexer: EventIndexer;
+  let warn: typeof console.warn;
+  let warnings: unknown[][];
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "index-"));
+    store = new IndexStore(path.join(dir, "index.json"));
+    fake = new FakeChain();
+    fake.extend(1, 20);
+    const { abi } = await artifacts.readArtifact("PrivateOSFHE");
+    indexer = new EventIndexer(
+      fake.asProvider(),
+      store,
+      { privateOSAddress: ethers.ZeroAddress, startBlock: 1, batchSize: 1, confirmations: 0, pollMs: 1_000 },
+      abi
+    );
+
+    warnings = [];
+    warn = console.warn;
+    console.warn = (...args: unknown[]) => warnings.push(args);
+  });
+
+  afterEach(function () {
+    console.warn = warn;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("waits for a block the RPC does not have instead of treating it as a reorg", async function () {
+    await indexer.sync();
+    expect(store.cursor).to.deep.eq(ref(20));
+
+    fake.chain.delete(20);
+    expect(await indexer.sync()).to.eq(0);
+    expect(store.cursor).to.deep.eq(ref(20));
+    expect(String(warnings[0][0])).to.match(/Block 20 not available/);
+
+    fake.extend(20, 25);
+    await indexer.sync();
+    expect(store.cursor).to.deep.eq(ref(25));
+    expect(warnings.filter(([message]) => String(message).includes("Reorg"))).to.deep.eq([]);
+  });
+
+  it("does not roll back when a block below the cursor is missing during the fork search", async function () {
+    await indexer.sync();
+
+    fake.extend(18, 20, 1);
+    fake.chain.delete(17);
+    expect(await indexer.sync()).to.eq(0);
+    expect(store.cursor).to.deep.eq(ref(20));
+    expect(String(warnings[0][0])).to.match(/Block 17 not available/);
+  });
+
+  it("rolls back to the last common block when the cursor block was replaced", async function () {
+    await indexer.sync();
+
+    fake.extend(18, 22, 1);
+    await indexer.sync();
+    expect(String(warnings[0][0])).to.match(/rolled back to 17/);
+    expect(store.cursor).to.deep.eq(ref(22, 1));
+  });
+
+  it("starts over when no block in the window survived", async function () {
+    await indexer.sync();
+
+    fake.extend(1, 20, 1);
+    await indexer.sync();
+    expect(String(warnings[0][0])).to.match(/rolled back to the start block/);
+    expect(store.cursor).to.deep.eq(ref(20, 1));
+    expect(store.recentBlocks.every((block) => block.hash === hash(block.number, 1))).to.eq(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { ownerCommitment, PrivateOSClient, ROLE_IDS, SystemMetricSample } from "../src/client/privateOS";
+
+describe("PrivateOSClient", function () {
+  let contract: Contract;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let client: PrivateOSClient;
+
+  before(function () {
+    if (!fhevm.isMock) {
+      console.warn("PrivateOSClient tests require the fhevm mock environment");
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    [alice, bob] = await ethers.getSigners();
+    contract = await ethers.deployContract("PrivateOSFHE");
+    const { abi } = await artifacts.readArtifact("PrivateOSFHE");
+    client = new PrivateOSClient(await contract.getAddress(), alice, fhevm, abi);
+    await client.createFleet("lab");
+    await client.enrollDevice(alice.address, 1);
+    await client.grantRole("analyst", alice.address);
+  });
+
+  async function decryptAnalysis(analysisId: number) {
+    const analysis = await contract.performanceAnalyses(analysisId);
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, client.address, alice);
+    return {
+      avgCpu: await decrypt(analysis.encryptedAvgCpu),
+      peakMemory: await decrypt(analysis.encryptedPeakMemory),
+      anomalyScore: await decrypt(analysis.encryptedAnomalyScore),
+    };
+  }
+
+  describe("roles", function () {
+    it("shares the contract's role IDs", async function () {
+      expect(ROLE_IDS).to.deep.eq({
+        admin: await contract.ADMIN_ROLE(),
+        analyst: await contract.ANALYST_ROLE(),
+        device: await contract.DEVICE_ROLE(),
+      });
+    });
+
+    it("reads, grants and revokes roles by name", async function () {
+      expect(await client.hasRole("admin", alice.address)).to.eq(true);
+      expect(await client.hasRole("analyst", bob.address)).to.eq(false);
+
+      await client.grantRole("analyst", bob.address);
+      expect(await client.hasRole("analyst", bob.address)).to.eq(true);
+      await client.revokeRole("analyst", bob.address);
+      expect(await client.hasRole("analyst", bob.address)).to.eq(false);
+    });
+
+    it("fails fast when the signer lacks a role", async function () {
+      const asBob = new PrivateOSClient(client.address, bob, fhevm, client.contract.interface.fragments);
+      await expect(asBob.requireRole("device")).to.be.rejectedWith(/lacks the device role/);
+      await client.requireRole("device");
+    });
+
+    it("reports metric access from the ACL", async function () {
+      await client.submitSystemMetric({ cpuUsage: 42, memoryUsage: 63, diskActivity: 120, networkTraffic: 980 });
+      await client.grantRole("analyst", bob.address);
+
+      expect(await client.hasMetricAccess(1, alice.address)).to.eq(true);
+      expect(await client.hasMetricAccess(1, bob.address)).to.eq(false);
+      await client.grantMetricAccess(1, bob.address);
+      expect(await client.hasMetricAccess(1, bob.address)).to.eq(true);
+    });
+  });
+
+  describe("anomaly rules", function () {
+    it("lists the rules and checks a metric against one", async function () {
+      const [seeded] = await client.getRules();
+      expect(seeded).to.deep.eq({
+        id: 1,
+        name: "cpu-or-memory",
+        kind: "threshold",
+        fields: ["cpuUsage", "memoryUsage"],
+        matchAll: false,
+        thresholds: [90, 85, 0, 0],
+        deviations: 0,
+        window: 0,
+        enabled: true,
+      });
+
+      await client.submitSystemMetric({ cpuUsage: 20, memoryUsage: 97, diskActivity: 0, networkTraffic: 0 });
+      await client.checkMetric(1, 1);
+      await fhevm.awaitDecryptionOracle();
+      const [detected] = await contract.queryFilter(contract.filters.AnomalyDetected());
+      expect((detected as any).args.rule).to.eq("cpu-or-memory");
+    });
+  });
+
+  describe("fleets", function () {
+    it("enrolls devices and aggregates a fleet's metrics without naming owners", async function () {
+      const { fleetId } = await client.createFleet("edge");
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const { deviceId } = await client.enrollDevice(bob.address, fleetId, { address: alice.address, salt });
+      const asBob = new PrivateOSClient(client.address, bob, fhevm, client.contract.interface.fragments);
+
+      await client.submitSystemMetric({ cpuUsage: 10, memoryUsage: 20, diskActivity: 0, networkTraffic: 0 });
+      await asBob.submitSystemMetric({ cpuUsage: 40, memoryUsage: 90, diskActivity: 0, networkTraffic: 0 });
+      await asBob.submitSystemMetric({ cpuUsage: 60, memoryUsage: 50, diskActivity: 0, networkTraffic: 0 });
+
+      expect(await asBob.deviceId()).to.eq(deviceId);
+      expect(await client.getFleets()).to.deep.eq([
+        { id: 1, name: "lab", activeDevices: 1 },
+        { id: 2, name: "edge", activeDevices: 1 },
+      ]);
+      const [device] = await client.getDevices(fleetId);
+      expect(device).to.deep.eq({
+        id: deviceId,
+        key: bob.address,
+        fleetId,
+        ownerCommitment: ownerCommitment(alice.address, salt),
+        active: true,
+      });
+      expect(await contract.isDeviceOwner(deviceId, alice.address, salt)).to.eq(true);
+
+      const { analysisId, metricIds } = await client.analyzeFleet(fleetId);
+      expect(metricIds).to.deep.eq([2, 3]);
+      expect(await decryptAnalysis(analysisId)).to.deep.eq({ avgCpu: 50n, peakMemory: 90n, anomalyScore: 1n });
+      await expect(client.analyzeFleet(await client.createFleet("empty").then((r) => r.fleetId))).to.be.rejectedWith(
+        /has no metrics/,
+      );
+    });
+  });
+
+  describe("analyzePerformanceHomomorphic", function () {
+    it("returns the analysis the cleartext path computes for the same samples", async function () {
+      const samples: SystemMetricSample[] = [
+        { cpuUsage: 35, memoryUsage: 40, diskActivity: 1, networkTraffic: 2 },
+        { cpuUsage: 97, memoryUsage: 60, diskActivity: 3, networkTraffic: 4 },
+        { cpuUsage: 50, memoryUsage: 88, diskActivity: 5, networkTraffic: 6 },
+        { cpuUsage: 12, memoryUsage: 20, diskActivity: 7, networkTraffic: 8 },
+      ];
+      for (const sample of samples) {
+        await client.submitSystemMetric(sample);
+      }
+      const ids = samples.map((_, i) => i + 1);
+
+      await contract.analyzePerformance(ids);
+      await fhevm.awaitDecryptionOracle();
+      const { analysisId } = await client.analyzePerformanceHomomorphic(ids);
+
+      expect(analysisId).to.eq(2);
+      const result = await decryptAnalysis(analysisId);
+      expect(result).to.deep.eq(await decryptAnalysis(1));
+      expect(result).to.deep.eq({ avgCpu: 48n, peakMemory: 88n, anomalyScore: 2n });
+    });
+  });
+});
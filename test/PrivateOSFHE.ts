@@ -0,0 +1,715 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { IACL__factory } from "../types";
+
+type Metric = [cpu: number, memory: number, disk: number, network: number];
+
+const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
+const ANALYST_ROLE = ethers.id("ANALYST_ROLE");
+const DEVICE_ROLE = ethers.id("DEVICE_ROLE");
+
+const THRESHOLD = 0;
+const ZSCORE = 1;
+const [CPU, MEMORY, DISK, NETWORK] = [1, 2, 4, 8];
+
+function rule(overrides: object) {
+  return {
+    name: "rule",
+    kind: THRESHOLD,
+    fields: CPU,
+    matchAll: false,
+    thresholds: [0, 0, 0, 0],
+    deviations: 0,
+    window: 0,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe("PrivateOSFHE", function () {
+  let contract: Contract;
+  let address: string;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+
+  before(function () {
+    if (!fhevm.isMock) {
+      console.warn("PrivateOSFHE tests require the fhevm mock environment");
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    [alice, bob, carol] = await ethers.getSigners();
+    contract = await ethers.deployContract("PrivateOSFHE");
+    address = await contract.getAddress();
+    // The deployer is the admin; most tests also use it as device #1, in fleet #1, and as the analyst
+    await contract.createFleet("lab");
+    await contract.enrollDevice(alice.address, 1, ethers.ZeroHash);
+    await contract.grantRole(ANALYST_ROLE, alice.address);
+  });
+
+  async function submitMetric(signer: HardhatEthersSigner, values: Metric) {
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    return contract.connect(signer).getFunction("submitSystemMetric")(...handles, inputProof);
+  }
+
+  async function reportCrash(signer: HardhatEthersSigner, values: [number, number, number]) {
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    return contract.connect(signer).getFunction("reportCrash")(...handles, inputProof);
+  }
+
+  function decrypt(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signer);
+  }
+
+  async function analyze(signer: HardhatEthersSigner, metrics: Metric[]) {
+    for (const metric of metrics) {
+      await submitMetric(signer, metric);
+    }
+    const ids = metrics.map((_, i) => i + 1);
+    const tx = await contract.connect(signer).getFunction("analyzePerformance")(ids);
+    await fhevm.awaitDecryptionOracle();
+    return tx;
+  }
+
+  // Resends the oracle's last callback from another account; its calldata is public on chain
+  async function replayCallback(callback: string) {
+    const block = await ethers.provider.getBlock("latest");
+    const tx = (await ethers.provider.getTransaction(block!.transactions[0]))!;
+    expect(tx.data.slice(0, 10)).to.eq(contract.interface.getFunction(callback)!.selector);
+    return carol.sendTransaction({ to: address, data: tx.data });
+  }
+
+  async function decryptAnalysis(analysisId: number, signer: HardhatEthersSigner) {
+    const analysis = await contract.performanceAnalyses(analysisId);
+    return {
+      avgCpu: await decrypt(analysis.encryptedAvgCpu, signer),
+      peakMemory: await decrypt(analysis.encryptedPeakMemory, signer),
+      anomalyScore: await decrypt(analysis.encryptedAnomalyScore, signer),
+    };
+  }
+
+  describe("submitSystemMetric", function () {
+    it("stores an encrypted sample the submitter can decrypt", async function () {
+      await expect(submitMetric(alice, [42, 63, 120, 980])).to.emit(contract, "MetricCollected").withArgs(1, 1, 1);
+
+      expect(await contract.metricCount()).to.eq(1);
+      const metric = await contract.systemMetrics(1);
+      expect(await decrypt(metric.encryptedCpuUsage, alice)).to.eq(42);
+      expect(await decrypt(metric.encryptedMemoryUsage, alice)).to.eq(63);
+      expect(await decrypt(metric.encryptedDiskActivity, alice)).to.eq(120);
+      expect(await decrypt(metric.encryptedNetworkTraffic, alice)).to.eq(980);
+      expect(metric.timestamp).to.be.gt(0);
+    });
+
+    it("does not grant other accounts access to the sample", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      const metric = await contract.systemMetrics(1);
+      await expect(decrypt(metric.encryptedCpuUsage, bob)).to.be.rejected;
+    });
+  });
+
+  describe("reportCrash", function () {
+    it("stores an encrypted, unanalyzed crash report", async function () {
+      await expect(reportCrash(alice, [11, 0xdeadbeef, 4242])).to.emit(contract, "CrashReported").withArgs(1, 1, 1);
+
+      expect(await contract.getCrashCount()).to.eq(1);
+      const crash = await contract.crashReports(1);
+      expect(await decrypt(crash.encryptedErrorCode, alice)).to.eq(11);
+      expect(await decrypt(crash.encryptedMemoryDumpHash, alice)).to.eq(0xdeadbeef);
+      expect(await decrypt(crash.encryptedProcessId, alice)).to.eq(4242);
+      expect(await contract.getCrashAnalysisStatus(1)).to.eq(false);
+    });
+  });
+
+  describe("calculatePerformance", function () {
+    it("averages CPU and takes peak memory across the selected samples", async function () {
+      await analyze(alice, [
+        [40, 50, 0, 0],
+        [80, 70, 0, 0],
+        [95, 60, 0, 0],
+      ]);
+
+      expect(await contract.analysisCount()).to.eq(1);
+      const result = await decryptAnalysis(1, alice);
+      expect(result.avgCpu).to.eq(71);
+      expect(result.peakMemory).to.eq(70);
+      expect(result.anomalyScore).to.eq(1);
+    });
+
+    it("counts one anomaly per sample over the CPU or memory threshold", async function () {
+      await analyze(alice, [
+        [91, 86, 0, 0],
+        [90, 85, 0, 0],
+        [10, 99, 0, 0],
+      ]);
+
+      const result = await decryptAnalysis(1, alice);
+      expect(result.anomalyScore).to.eq(2);
+    });
+
+    it("emits AnomalyDetected for each anomalous sample, naming the rule", async function () {
+      await analyze(alice, [[20, 30, 0, 0]]);
+      expect(await contract.queryFilter(contract.filters.AnomalyDetected())).to.have.length(0);
+
+      await submitMetric(alice, [99, 30, 0, 0]);
+      await submitMetric(alice, [10, 20, 0, 0]);
+      await contract.analyzePerformance([2, 3]);
+      await fhevm.awaitDecryptionOracle();
+      const events = await contract.queryFilter(contract.filters.AnomalyDetected());
+      expect(events.map((event: any) => [...event.args])).to.deep.eq([[2n, 1n, "cpu-or-memory"]]);
+    });
+
+    it("cannot be replayed to record the analysis twice", async function () {
+      await analyze(alice, [[99, 30, 0, 0]]);
+
+      await expect(replayCallback("calculatePerformance")).to.be.revertedWith("Invalid request");
+      expect(await contract.analysisCount()).to.eq(1);
+      expect(await contract.queryFilter(contract.filters.AnomalyDetected())).to.have.length(1);
+    });
+
+    it("evaluates every enabled threshold rule on all four readings", async function () {
+      await contract.setRuleEnabled(1, false);
+      await contract.addRule(
+        rule({ name: "disk-and-network", fields: DISK | NETWORK, matchAll: true, thresholds: [0, 0, 500, 1000] }),
+      );
+      await contract.addRule(rule({ name: "network", fields: NETWORK, thresholds: [0, 0, 0, 1000] }));
+
+      await analyze(alice, [
+        [99, 99, 600, 1500],
+        [10, 10, 600, 10],
+        [10, 10, 10, 2000],
+      ]);
+
+      expect((await decryptAnalysis(1, alice)).anomalyScore).to.eq(2);
+      const events = await contract.queryFilter(contract.filters.AnomalyDetected());
+      expect(events.map((event: any) => [...event.args])).to.deep.eq([
+        [1n, 2n, "disk-and-network"],
+        [1n, 3n, "network"],
+        [3n, 3n, "network"],
+      ]);
+    });
+
+    it("maps the request ID to the stored analysis", async function () {
+      const tx = await analyze(alice, [[20, 30, 0, 0]]);
+      const receipt = await tx.wait();
+      const requested = receipt.logs
+        .map((log: any) => contract.interface.parseLog(log))
+        .find((log: any) => log?.name === "AnalysisRequested");
+
+      expect(await contract.analysisByRequest(requested.args.requestId)).to.eq(1);
+      expect(await contract.analysisRequester(1)).to.eq(alice.address);
+    });
+
+    it("lets the requester share results with a viewer", async function () {
+      await analyze(alice, [[20, 30, 0, 0]]);
+      const analysis = await contract.performanceAnalyses(1);
+      await expect(decrypt(analysis.encryptedAvgCpu, bob)).to.be.rejected;
+
+      await expect(contract.connect(bob).getFunction("addAnalysisViewer")(1, bob.address)).to.be.revertedWith(
+        "Not analysis requester",
+      );
+      await expect(contract.addAnalysisViewer(1, bob.address))
+        .to.emit(contract, "AnalysisViewerAdded")
+        .withArgs(1, bob.address);
+      expect(await decrypt(analysis.encryptedAvgCpu, bob)).to.eq(20);
+    });
+
+    it("rejects empty and unknown metric IDs", async function () {
+      await submitMetric(alice, [20, 30, 0, 0]);
+      await expect(contract.analyzePerformance([])).to.be.revertedWith("No metrics provided");
+      await expect(contract.analyzePerformance([0])).to.be.revertedWith("Invalid metric");
+      await expect(contract.analyzePerformance([1, 2])).to.be.revertedWith("Invalid metric");
+    });
+  });
+
+  describe("analyzePerformanceHomomorphic", function () {
+    const datasets: Record<string, Metric[]> = {
+      "mixed load": [
+        [40, 50, 0, 0],
+        [80, 70, 0, 0],
+        [95, 60, 0, 0],
+      ],
+      "samples on and over the thresholds": [
+        [91, 86, 0, 0],
+        [90, 85, 0, 0],
+        [10, 99, 0, 0],
+      ],
+      "a single sample": [[20, 30, 5, 7]],
+      "an average that rounds down": [
+        [1, 0, 0, 0],
+        [2, 0, 0, 0],
+      ],
+    };
+
+    it("matches the cleartext path under custom rules", async function () {
+      await contract.addRule(
+        rule({ name: "disk-and-network", fields: DISK | NETWORK, matchAll: true, thresholds: [0, 0, 500, 1000] }),
+      );
+      await contract.addRule(rule({ name: "network-zscore", kind: ZSCORE, fields: NETWORK, deviations: 2, window: 2 }));
+      const samples: Metric[] = [
+        [20, 30, 600, 1500],
+        [20, 30, 600, 10],
+        [95, 30, 0, 0],
+      ];
+
+      await analyze(alice, samples);
+      await contract.analyzePerformanceHomomorphic([1, 2, 3]);
+
+      expect(await decryptAnalysis(2, alice)).to.deep.eq(await decryptAnalysis(1, alice));
+      expect((await decryptAnalysis(2, alice)).anomalyScore).to.eq(2);
+    });
+
+    it("takes fewer metrics as the enabled rules add comparisons", async function () {
+      expect(await contract.homomorphicMetricLimit()).to.eq(20);
+
+      await contract.addRule(rule({ name: "all-fields", fields: CPU | MEMORY | DISK | NETWORK }));
+      expect(await contract.homomorphicMetricLimit()).to.eq(10);
+      await contract.setRuleEnabled(1, false);
+      expect(await contract.homomorphicMetricLimit()).to.eq(13);
+      await contract.setRuleEnabled(2, false);
+      expect(await contract.homomorphicMetricLimit()).to.eq(20);
+    });
+
+    for (const [name, samples] of Object.entries(datasets)) {
+      it(`matches the cleartext path for ${name}`, async function () {
+        await analyze(alice, samples);
+        const ids = samples.map((_, i) => i + 1);
+        await contract.analyzePerformanceHomomorphic(ids);
+
+        expect(await contract.analysisCount()).to.eq(2);
+        expect(await decryptAnalysis(2, alice)).to.deep.eq(await decryptAnalysis(1, alice));
+      });
+    }
+
+    it("completes without asking the oracle to decrypt any sample", async function () {
+      await submitMetric(alice, [95, 90, 0, 0]);
+
+      await expect(contract.analyzePerformanceHomomorphic([1]))
+        .to.emit(contract, "AnalysisCompleted")
+        .withArgs(1)
+        .and.not.to.emit(contract, "AnalysisRequested");
+      expect(await contract.analysisRequester(1)).to.eq(alice.address);
+      expect(await decryptAnalysis(1, alice)).to.deep.eq({ avgCpu: 95n, peakMemory: 90n, anomalyScore: 1n });
+    });
+
+    it("keeps the aggregates private to the requester and their viewers", async function () {
+      await submitMetric(alice, [20, 30, 0, 0]);
+      await contract.analyzePerformanceHomomorphic([1]);
+      const analysis = await contract.performanceAnalyses(1);
+      await expect(decrypt(analysis.encryptedAvgCpu, bob)).to.be.rejected;
+
+      await contract.addAnalysisViewer(1, bob.address);
+      expect(await decrypt(analysis.encryptedAvgCpu, bob)).to.eq(20);
+    });
+
+    it("rejects non-analysts, empty, unknown and too many metric IDs", async function () {
+      await submitMetric(alice, [20, 30, 0, 0]);
+      const max = Number(await contract.MAX_HOMOMORPHIC_METRICS());
+
+      await expect(contract.connect(bob).getFunction("analyzePerformanceHomomorphic")([1])).to.be.revertedWith(
+        "Missing role",
+      );
+      await expect(contract.analyzePerformanceHomomorphic([])).to.be.revertedWith("No metrics provided");
+      await expect(contract.analyzePerformanceHomomorphic([1, 2])).to.be.revertedWith("Invalid metric");
+      await expect(contract.analyzePerformanceHomomorphic(Array(max + 1).fill(1))).to.be.revertedWith(
+        "Too many metrics",
+      );
+    });
+  });
+
+  describe("anomaly rules", function () {
+    it("seeds the CPU or memory rule", async function () {
+      expect(await contract.ruleCount()).to.eq(1);
+      const seeded = await contract.getRule(1);
+      expect(seeded.name).to.eq("cpu-or-memory");
+      expect(seeded.fields).to.eq(CPU | MEMORY);
+      expect(seeded.thresholds).to.deep.eq([90n, 85n, 0n, 0n]);
+      expect(seeded.enabled).to.eq(true);
+    });
+
+    it("only lets admins add, update and toggle rules", async function () {
+      const asBob = contract.connect(bob);
+      await contract.grantRole(ANALYST_ROLE, bob.address);
+      await expect(asBob.getFunction("addRule")(rule({}))).to.be.revertedWith("Missing role");
+      await expect(asBob.getFunction("updateRule")(1, rule({}))).to.be.revertedWith("Missing role");
+      await expect(asBob.getFunction("setRuleEnabled")(1, false)).to.be.revertedWith("Missing role");
+
+      await expect(contract.addRule(rule({ name: "cpu" }))).to.emit(contract, "AnomalyRuleChanged").withArgs(2);
+      await contract.updateRule(2, rule({ name: "cpu-high", thresholds: [95, 0, 0, 0] }));
+      await contract.setRuleEnabled(2, false);
+
+      const updated = await contract.getRule(2);
+      expect(updated.name).to.eq("cpu-high");
+      expect(updated.thresholds[0]).to.eq(95);
+      expect(updated.enabled).to.eq(false);
+    });
+
+    it("rejects malformed rules", async function () {
+      await expect(contract.addRule(rule({ name: "" }))).to.be.revertedWith("Rule name required");
+      await expect(contract.addRule(rule({ fields: 0 }))).to.be.revertedWith("Invalid fields");
+      await expect(contract.addRule(rule({ fields: 16 }))).to.be.revertedWith("Invalid fields");
+      const zscore = { kind: ZSCORE, deviations: 3, window: 4 };
+      await expect(contract.addRule(rule({ ...zscore, fields: CPU | MEMORY }))).to.be.revertedWith(
+        "Z-score rules watch one field",
+      );
+      await expect(contract.addRule(rule({ ...zscore, deviations: 0 }))).to.be.revertedWith("Invalid deviations");
+      await expect(contract.addRule(rule({ ...zscore, deviations: 11 }))).to.be.revertedWith("Invalid deviations");
+      await expect(contract.addRule(rule({ ...zscore, window: 1 }))).to.be.revertedWith("Invalid window");
+      await expect(contract.addRule(rule({ ...zscore, window: 9 }))).to.be.revertedWith("Invalid window");
+      await expect(contract.updateRule(2, rule({}))).to.be.revertedWith("Invalid rule");
+      await expect(contract.getRule(0)).to.be.revertedWith("Invalid rule");
+    });
+
+    it("caps the number of rules", async function () {
+      const max = Number(await contract.MAX_RULES());
+      for (let i = 1; i < max; i++) {
+        await contract.addRule(rule({ name: `rule-${i}` }));
+      }
+      await expect(contract.addRule(rule({}))).to.be.revertedWith("Too many rules");
+    });
+  });
+
+  describe("checkMetric", function () {
+    const baseline: Metric[] = [50, 52, 48, 50, 50, 52, 48, 50].map((cpu) => [cpu, 30, 0, 0]);
+
+    async function check(metricId: number, ruleId: number) {
+      const tx = await contract.checkMetric(metricId, ruleId);
+      await fhevm.awaitDecryptionOracle();
+      return tx;
+    }
+
+    it("decrypts only whether a threshold rule fired", async function () {
+      await submitMetric(alice, [95, 30, 0, 0]);
+      await submitMetric(alice, [50, 30, 0, 0]);
+
+      await check(1, 1);
+      await check(2, 1);
+
+      const checked = await contract.queryFilter(contract.filters.MetricChecked());
+      expect(checked.map((event: any) => [...event.args])).to.deep.eq([
+        [1n, 1n, true],
+        [2n, 1n, false],
+      ]);
+      const detected = await contract.queryFilter(contract.filters.AnomalyDetected());
+      expect(detected.map((event: any) => [...event.args])).to.deep.eq([[1n, 1n, "cpu-or-memory"]]);
+    });
+
+    it("fires a z-score rule on a reading far from the rolling baseline", async function () {
+      await contract.addRule(rule({ name: "cpu-spike", kind: ZSCORE, fields: CPU, deviations: 2, window: 8 }));
+      for (const metric of [...baseline, [90, 30, 0, 0] as Metric, [51, 30, 0, 0] as Metric]) {
+        await submitMetric(alice, metric);
+      }
+
+      await check(9, 2);
+      // The baseline now includes the spike, which widens the deviation
+      await check(10, 2);
+
+      const checked = await contract.queryFilter(contract.filters.MetricChecked());
+      expect(checked.map((event: any) => event.args.fired)).to.deep.eq([true, false]);
+      const [detected] = await contract.queryFilter(contract.filters.AnomalyDetected());
+      expect((detected as any).args.rule).to.eq("cpu-spike");
+      expect((detected as any).args.metricId).to.eq(9);
+    });
+
+    it("fires on any change from a flat baseline, not on an equal reading", async function () {
+      await contract.addRule(rule({ name: "memory-drift", kind: ZSCORE, fields: MEMORY, deviations: 1, window: 2 }));
+      await submitMetric(alice, [10, 40, 0, 0]);
+      await submitMetric(alice, [10, 40, 0, 0]);
+      await submitMetric(alice, [10, 40, 0, 0]);
+      await submitMetric(alice, [10, 41, 0, 0]);
+
+      await check(3, 2);
+      await check(4, 2);
+
+      const checked = await contract.queryFilter(contract.filters.MetricChecked());
+      expect(checked.map((event: any) => event.args.fired)).to.deep.eq([false, true]);
+    });
+
+    it("caps large readings instead of letting the 64-bit arithmetic wrap", async function () {
+      await contract.addRule(rule({ name: "network-zscore", kind: ZSCORE, fields: NETWORK, deviations: 3, window: 2 }));
+      await submitMetric(alice, [0, 0, 0, 0]);
+      await submitMetric(alice, [0, 0, 0, 3_000_000_000]);
+      await submitMetric(alice, [0, 0, 0, 0]);
+
+      // One deviation from the mean; unclamped, (n*Q - S^2) * k^2 wraps and this reads as an anomaly
+      await check(3, 2);
+
+      const checked = await contract.queryFilter(contract.filters.MetricChecked());
+      expect(checked.map((event: any) => event.args.fired)).to.deep.eq([false]);
+    });
+
+    it("cannot be replayed to emit the verdict again", async function () {
+      await submitMetric(alice, [95, 30, 0, 0]);
+      await check(1, 1);
+
+      await expect(replayCallback("metricChecked")).to.be.revertedWith("Invalid request");
+      expect(await contract.queryFilter(contract.filters.MetricChecked())).to.have.length(1);
+      expect(await contract.queryFilter(contract.filters.AnomalyDetected())).to.have.length(1);
+    });
+
+    it("rejects non-analysts, unknown IDs, disabled rules and short histories", async function () {
+      await contract.addRule(rule({ name: "cpu-spike", kind: ZSCORE, fields: CPU, deviations: 2, window: 4 }));
+      await submitMetric(alice, [50, 30, 0, 0]);
+
+      await expect(contract.connect(bob).getFunction("checkMetric")(1, 1)).to.be.revertedWith("Missing role");
+      await expect(contract.checkMetric(2, 1)).to.be.revertedWith("Invalid metric");
+      await expect(contract.checkMetric(1, 3)).to.be.revertedWith("Invalid rule");
+      await expect(contract.checkMetric(1, 2)).to.be.revertedWith("Not enough history");
+      await contract.setRuleEnabled(1, false);
+      await expect(contract.checkMetric(1, 1)).to.be.revertedWith("Rule disabled");
+    });
+  });
+
+  describe("device registry", function () {
+    it("tags every submission with its device and the fleet it was in", async function () {
+      await contract.createFleet("edge");
+      await submitMetric(alice, [42, 63, 120, 980]);
+      await expect(contract.moveDevice(1, 2)).to.emit(contract, "DeviceMoved").withArgs(1, 2);
+      await submitMetric(alice, [43, 64, 121, 981]);
+      await reportCrash(alice, [11, 0xdeadbeef, 4242]);
+
+      expect((await contract.systemMetrics(1)).fleetId).to.eq(1);
+      expect((await contract.systemMetrics(2)).fleetId).to.eq(2);
+      expect((await contract.systemMetrics(2)).deviceId).to.eq(1);
+      expect((await contract.crashReports(1)).fleetId).to.eq(2);
+      expect(await contract.getDeviceMetricCount(1)).to.eq(2);
+      expect((await contract.fleets(1)).activeDevices).to.eq(0);
+      expect((await contract.fleets(2)).activeDevices).to.eq(1);
+    });
+
+    it("only lets admins manage fleets and enroll devices", async function () {
+      const asBob = contract.connect(bob);
+      await expect(asBob.getFunction("createFleet")("edge")).to.be.revertedWith("Missing role");
+      await expect(asBob.getFunction("enrollDevice")(bob.address, 1, ethers.ZeroHash)).to.be.revertedWith(
+        "Missing role",
+      );
+      await expect(asBob.getFunction("moveDevice")(1, 1)).to.be.revertedWith("Missing role");
+
+      await expect(contract.createFleet("")).to.be.revertedWith("Fleet name required");
+      await expect(contract.enrollDevice(bob.address, 2, ethers.ZeroHash)).to.be.revertedWith("Invalid fleet");
+      await expect(contract.enrollDevice(alice.address, 1, ethers.ZeroHash)).to.be.revertedWith("Already enrolled");
+      await expect(contract.enrollDevice(ethers.ZeroAddress, 1, ethers.ZeroHash)).to.be.revertedWith(
+        "Invalid account",
+      );
+      await expect(contract.moveDevice(2, 1)).to.be.revertedWith("Invalid device");
+
+      await expect(contract.enrollDevice(bob.address, 1, ethers.ZeroHash))
+        .to.emit(contract, "DeviceEnrolled")
+        .withArgs(2, 1, bob.address);
+      expect(await contract.deviceIdOf(bob.address)).to.eq(2);
+      expect(await contract.hasRole(DEVICE_ROLE, bob.address)).to.eq(true);
+    });
+
+    it("retires a device at its own or an admin's request, for good", async function () {
+      await contract.enrollDevice(bob.address, 1, ethers.ZeroHash);
+      await expect(contract.connect(carol).getFunction("retireDevice")(2)).to.be.revertedWith("Missing role");
+
+      await expect(contract.connect(bob).getFunction("retireDevice")(2)).to.emit(contract, "DeviceRetired").withArgs(2);
+      await expect(submitMetric(bob, [42, 63, 120, 980])).to.be.revertedWith("Missing role");
+      await expect(contract.retireDevice(2)).to.be.revertedWith("Invalid device");
+      await expect(contract.enrollDevice(bob.address, 1, ethers.ZeroHash)).to.be.revertedWith("Already enrolled");
+
+      await contract.retireDevice(1);
+      expect(await contract.hasRole(DEVICE_ROLE, alice.address)).to.eq(false);
+      expect((await contract.fleets(1)).activeDevices).to.eq(0);
+    });
+
+    it("stores an owner commitment that only the salt holder can open", async function () {
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      const commitment = ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [carol.address, salt]),
+      );
+      const receipt = await (await contract.enrollDevice(bob.address, 1, commitment)).wait();
+
+      expect(JSON.stringify(receipt.logs).toLowerCase()).not.to.contain(carol.address.slice(2).toLowerCase());
+      expect(await contract.isDeviceOwner(2, carol.address, salt)).to.eq(true);
+      expect(await contract.isDeviceOwner(2, bob.address, salt)).to.eq(false);
+      expect(await contract.isDeviceOwner(2, carol.address, ethers.ZeroHash)).to.eq(false);
+      // Without a commitment no owner can be proven
+      expect(await contract.isDeviceOwner(1, ethers.ZeroAddress, ethers.ZeroHash)).to.eq(false);
+    });
+
+    it("takes a z-score baseline from the same device's metrics only", async function () {
+      await contract.enrollDevice(bob.address, 1, ethers.ZeroHash);
+      await contract.addRule(rule({ name: "cpu-spike", kind: ZSCORE, fields: CPU, deviations: 1, window: 2 }));
+      await submitMetric(alice, [50, 30, 0, 0]);
+      await submitMetric(bob, [95, 30, 0, 0]);
+      await submitMetric(alice, [50, 30, 0, 0]);
+      await submitMetric(bob, [5, 30, 0, 0]);
+      await submitMetric(alice, [50, 30, 0, 0]);
+
+      await expect(contract.checkMetric(4, 2)).to.be.revertedWith("Not enough history");
+      await contract.checkMetric(5, 2);
+      await fhevm.awaitDecryptionOracle();
+      const [checked] = await contract.queryFilter(contract.filters.MetricChecked());
+      expect((checked as any).args.fired).to.eq(false);
+    });
+  });
+
+  describe("processCrash", function () {
+    it("marks the crash as analyzed once the oracle answers", async function () {
+      await reportCrash(alice, [11, 0xdeadbeef, 4242]);
+      await contract.analyzeCrash(1);
+      expect(await contract.getCrashAnalysisStatus(1)).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.getCrashAnalysisStatus(1)).to.eq(true);
+    });
+
+    it("cannot be replayed", async function () {
+      await reportCrash(alice, [11, 0xdeadbeef, 4242]);
+      await contract.analyzeCrash(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(replayCallback("processCrash")).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects unknown crash IDs", async function () {
+      await expect(contract.analyzeCrash(0)).to.be.revertedWith("Invalid crash report");
+      await expect(contract.analyzeCrash(1)).to.be.revertedWith("Invalid crash report");
+    });
+  });
+
+  describe("decryptMetric", function () {
+    it("publishes the decrypted CPU usage of the metric", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      await contract.requestMetricDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await contract.queryFilter(contract.filters.MetricDecrypted());
+      expect((event as any).args.metricId).to.eq(1);
+      expect((event as any).args.cpuUsage).to.eq(42);
+    });
+
+    it("cannot be replayed to publish the reading again", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      await contract.requestMetricDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(replayCallback("decryptMetric")).to.be.revertedWith("Invalid request");
+      expect(await contract.queryFilter(contract.filters.MetricDecrypted())).to.have.length(1);
+    });
+
+    it("rejects unknown metric IDs", async function () {
+      await expect(contract.requestMetricDecryption(0)).to.be.revertedWith("Invalid metric");
+      await expect(contract.requestMetricDecryption(1)).to.be.revertedWith("Invalid metric");
+    });
+  });
+
+  describe("access control", function () {
+    it("makes the deployer the only admin", async function () {
+      expect(await contract.hasRole(ADMIN_ROLE, alice.address)).to.eq(true);
+      expect(await contract.hasRole(ADMIN_ROLE, bob.address)).to.eq(false);
+      expect(await contract.adminCount()).to.eq(1);
+    });
+
+    it("only lets devices submit metrics and crash reports", async function () {
+      await expect(submitMetric(bob, [42, 63, 120, 980])).to.be.revertedWith("Missing role");
+      await expect(reportCrash(bob, [11, 0xdeadbeef, 4242])).to.be.revertedWith("Missing role");
+
+      await contract.enrollDevice(bob.address, 1, ethers.ZeroHash);
+      await expect(submitMetric(bob, [42, 63, 120, 980])).to.emit(contract, "MetricCollected");
+    });
+
+    it("only lets analysts send ciphertexts to the decryption oracle", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      await reportCrash(alice, [11, 0xdeadbeef, 4242]);
+      // A device may submit data, not request its decryption
+      await contract.enrollDevice(bob.address, 1, ethers.ZeroHash);
+      const asBob = contract.connect(bob);
+
+      await expect(asBob.getFunction("analyzePerformance")([1])).to.be.revertedWith("Missing role");
+      await expect(asBob.getFunction("analyzeCrash")(1)).to.be.revertedWith("Missing role");
+      await expect(asBob.getFunction("requestMetricDecryption")(1)).to.be.revertedWith("Missing role");
+    });
+
+    it("only lets admins grant and revoke roles", async function () {
+      const asBob = contract.connect(bob);
+      await expect(asBob.getFunction("grantRole")(ANALYST_ROLE, bob.address)).to.be.revertedWith("Missing role");
+
+      await expect(contract.grantRole(ANALYST_ROLE, bob.address))
+        .to.emit(contract, "RoleGranted")
+        .withArgs(ANALYST_ROLE, bob.address, alice.address);
+      await expect(asBob.getFunction("revokeRole")(ANALYST_ROLE, alice.address)).to.be.revertedWith("Missing role");
+
+      await expect(contract.revokeRole(ANALYST_ROLE, bob.address))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(ANALYST_ROLE, bob.address, alice.address);
+      expect(await contract.hasRole(ANALYST_ROLE, bob.address)).to.eq(false);
+    });
+
+    it("only hands out the device role through the registry", async function () {
+      await expect(contract.grantRole(DEVICE_ROLE, bob.address)).to.be.revertedWith("Enroll devices instead");
+      await expect(contract.revokeRole(DEVICE_ROLE, alice.address)).to.be.revertedWith("Retire devices instead");
+      await expect(contract.renounceRole(DEVICE_ROLE)).to.be.revertedWith("Retire devices instead");
+      expect(await contract.hasRole(DEVICE_ROLE, alice.address)).to.eq(true);
+    });
+
+    it("rejects unknown roles", async function () {
+      await expect(contract.grantRole(ethers.id("OWNER_ROLE"), bob.address)).to.be.revertedWith("Unknown role");
+    });
+
+    it("never removes the last admin", async function () {
+      await expect(contract.renounceRole(ADMIN_ROLE)).to.be.revertedWith("Cannot remove the last admin");
+
+      await contract.grantRole(ADMIN_ROLE, bob.address);
+      await contract.renounceRole(ADMIN_ROLE);
+      expect(await contract.adminCount()).to.eq(1);
+      await expect(contract.connect(bob).getFunction("revokeRole")(ADMIN_ROLE, bob.address)).to.be.revertedWith(
+        "Cannot remove the last admin",
+      );
+    });
+
+    it("grants an analyst ACL access to a metric's handles", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      const metric = await contract.systemMetrics(1);
+      const acl = IACL__factory.connect(await contract.aclAddress(), alice);
+
+      await expect(contract.grantMetricAccess(1, bob.address)).to.be.revertedWith("Not an analyst");
+      await contract.grantRole(ANALYST_ROLE, bob.address);
+      await expect(contract.connect(bob).getFunction("grantMetricAccess")(1, bob.address)).to.be.revertedWith(
+        "Missing role",
+      );
+
+      expect(await acl.isAllowed(metric.encryptedCpuUsage, bob.address)).to.eq(false);
+      await expect(contract.grantMetricAccess(1, bob.address))
+        .to.emit(contract, "MetricAccessGranted")
+        .withArgs(1, bob.address);
+      expect(await acl.isAllowed(metric.encryptedCpuUsage, bob.address)).to.eq(true);
+      expect(await decrypt(metric.encryptedNetworkTraffic, bob)).to.eq(980);
+      expect(await acl.isAllowed(metric.encryptedCpuUsage, carol.address)).to.eq(false);
+    });
+
+    it("lends metric handles to an analyst for one transaction only", async function () {
+      await submitMetric(alice, [42, 63, 120, 980]);
+      const metric = await contract.systemMetrics(1);
+      await expect(contract.connect(bob).getFunction("metricForAnalysis")(1)).to.be.revertedWith("Missing role");
+
+      await contract.grantRole(ANALYST_ROLE, bob.address);
+      const [cpuUsage] = await contract.connect(bob).getFunction("metricForAnalysis").staticCall(1);
+      expect(cpuUsage).to.eq(metric.encryptedCpuUsage);
+
+      await contract.connect(bob).getFunction("metricForAnalysis")(1);
+      const acl = IACL__factory.connect(await contract.aclAddress(), alice);
+      expect(await acl.isAllowed(metric.encryptedCpuUsage, bob.address)).to.eq(false);
+    });
+  });
+
+  describe("invalid request IDs", function () {
+    for (const callback of ["calculatePerformance", "processCrash", "decryptMetric", "metricChecked"]) {
+      it(`${callback} rejects a request it never made`, async function () {
+        await expect(contract.getFunction(callback)(12345, "0x", "0x")).to.be.revertedWith("Invalid request");
+      });
+    }
+  });
+});